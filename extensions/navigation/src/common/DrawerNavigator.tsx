@@ -0,0 +1,323 @@
+/**
+ * DrawerNavigator.tsx
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Presents a drawer that slides in over the main content from the left or
+ * right edge. The drawer can be opened by swiping in from that edge and
+ * closed by swiping it away, tapping the overlay, pressing Escape or the
+ * Android back button.
+ */
+
+import * as React from 'react';
+import * as RX from 'reactxp';
+
+import { DrawerNavigatorProps, DrawerPosition } from './Types';
+
+const _defaultDrawerWidth = 280;
+const _defaultEdgeSwipeWidth = 20;
+const _animationDuration = 250;
+
+// Swipes faster than this (in pixels per millisecond) open or close the
+// drawer regardless of how far it was dragged.
+const _flingVelocity = 0.3;
+
+const _keyCodeEscape = 27;
+
+const _styles = {
+    container: RX.Styles.createViewStyle({
+        flex: 1,
+        alignSelf: 'stretch',
+        overflow: 'hidden'
+    }),
+    content: RX.Styles.createViewStyle({
+        flex: 1,
+        alignSelf: 'stretch'
+    }),
+    overlay: RX.Styles.createViewStyle({
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        top: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.4)'
+    }),
+    drawer: RX.Styles.createViewStyle({
+        position: 'absolute',
+        top: 0,
+        bottom: 0,
+        backgroundColor: 'white'
+    }),
+    drawerLeft: RX.Styles.createViewStyle({
+        left: 0
+    }),
+    drawerRight: RX.Styles.createViewStyle({
+        right: 0
+    }),
+    edgeSwipeArea: RX.Styles.createViewStyle({
+        position: 'absolute',
+        top: 0,
+        bottom: 0
+    })
+};
+
+export interface DrawerNavigatorState {
+    isOpen: boolean;
+}
+
+export class DrawerNavigator extends React.Component<DrawerNavigatorProps, DrawerNavigatorState> {
+    private _translateValue: RX.Types.AnimatedValue;
+    private _overlayOpacityValue = RX.Animated.createValue(0);
+    private _drawerAnimationStyle: RX.Types.AnimatedViewStyleRuleSet;
+    private _overlayAnimationStyle = RX.Styles.createAnimatedViewStyle({
+        opacity: this._overlayOpacityValue
+    });
+    private _animation: RX.Types.Animated.CompositeAnimation | undefined;
+
+    // Progress (0 when closed, 1 when open) at the start of the swipe that's
+    // being tracked, if any.
+    private _panStartProgress: number | undefined;
+
+    constructor(props: DrawerNavigatorProps) {
+        super(props);
+
+        this._translateValue = RX.Animated.createValue(this._getClosedOffset(props));
+        this._drawerAnimationStyle = RX.Styles.createAnimatedViewStyle({
+            transform: [{
+                translateX: this._translateValue
+            }]
+        });
+
+        this.state = {
+            isOpen: false
+        };
+    }
+
+    componentDidMount() {
+        RX.Input.backButtonEvent.subscribe(this._onBackPress);
+    }
+
+    componentWillUnmount() {
+        RX.Input.backButtonEvent.unsubscribe(this._onBackPress);
+        RX.Input.keyUpEvent.unsubscribe(this._onKeyUp);
+        this._stopAnimation();
+    }
+
+    componentWillReceiveProps(newProps: DrawerNavigatorProps) {
+        if (newProps.drawerPosition !== this.props.drawerPosition || newProps.drawerWidth !== this.props.drawerWidth) {
+            this._stopAnimation();
+            this._translateValue.setValue(this.state.isOpen ? 0 : this._getClosedOffset(newProps));
+        }
+    }
+
+    render() {
+        const isOpen = this.state.isOpen;
+        const isRight = this.props.drawerPosition === DrawerPosition.Right;
+        const edgeSwipeWidth = this.props.edgeSwipeWidth !== undefined ? this.props.edgeSwipeWidth : _defaultEdgeSwipeWidth;
+        const drawerStyles = [
+            _styles.drawer,
+            isRight ? _styles.drawerRight : _styles.drawerLeft,
+            RX.Styles.createViewStyle({ width: this._getDrawerWidth(this.props) }, false),
+            this.props.drawerStyle,
+            this._drawerAnimationStyle
+        ];
+
+        // While the drawer is closed, only swipes that start in the strip along
+        // its edge are handled, so the main content keeps its own horizontal
+        // pans. While it's open, swipes anywhere close it.
+        let edgeSwipeArea: JSX.Element | undefined;
+        if (!isOpen && edgeSwipeWidth > 0) {
+            const edgeSwipeAreaStyles = [
+                _styles.edgeSwipeArea,
+                isRight ? _styles.drawerRight : _styles.drawerLeft,
+                RX.Styles.createViewStyle({ width: edgeSwipeWidth }, false)
+            ];
+
+            edgeSwipeArea = (
+                <RX.GestureView
+                    style={ edgeSwipeAreaStyles }
+                    onPanHorizontal={ this._onPanHorizontal }
+                    preferredPan={ RX.Types.PreferredPanGesture.Horizontal }
+                />
+            );
+        }
+
+        // While the drawer is open, keyboard focus stays within it and the
+        // main content is taken out of the focus order.
+        return (
+            <RX.GestureView
+                style={ _styles.container }
+                onPanHorizontal={ isOpen ? this._onPanHorizontal : undefined }
+                preferredPan={ RX.Types.PreferredPanGesture.Horizontal }
+            >
+                <RX.View
+                    style={ _styles.content }
+                    limitFocusWithin={ isOpen ? RX.Types.LimitFocusType.Limited : RX.Types.LimitFocusType.Unlimited }
+                    importantForAccessibility={ isOpen ? RX.Types.ImportantForAccessibility.NoHideDescendants :
+                        RX.Types.ImportantForAccessibility.Auto }
+                >
+                    { this.props.children }
+                </RX.View>
+                { edgeSwipeArea }
+                <RX.Animated.View
+                    style={ [_styles.overlay, this.props.overlayStyle, this._overlayAnimationStyle] }
+                    ignorePointerEvents={ !isOpen }
+                    onPress={ this._onPressOverlay }
+                    disableTouchOpacityAnimation={ true }
+                />
+                <RX.Animated.View
+                    style={ drawerStyles }
+                    restrictFocusWithin={ isOpen }
+                    limitFocusWithin={ isOpen ? RX.Types.LimitFocusType.Unlimited : RX.Types.LimitFocusType.Limited }
+                    importantForAccessibility={ isOpen ? RX.Types.ImportantForAccessibility.Auto :
+                        RX.Types.ImportantForAccessibility.NoHideDescendants }
+                >
+                    { this.props.renderDrawer() }
+                </RX.Animated.View>
+            </RX.GestureView>
+        );
+    }
+
+    openDrawer(): void {
+        this._animateTo(true);
+    }
+
+    closeDrawer(): void {
+        this._animateTo(false);
+    }
+
+    toggleDrawer(): void {
+        this._animateTo(!this.state.isOpen);
+    }
+
+    isDrawerOpen(): boolean {
+        return this.state.isOpen;
+    }
+
+    private _animateTo(isOpen: boolean) {
+        this._stopAnimation();
+        this._setOpen(isOpen);
+
+        const animation = RX.Animated.parallel([
+            RX.Animated.timing(this._translateValue, {
+                toValue: isOpen ? 0 : this._getClosedOffset(this.props),
+                duration: _animationDuration,
+                easing: RX.Animated.Easing.Out(),
+                useNativeDriver: true
+            }),
+            RX.Animated.timing(this._overlayOpacityValue, {
+                toValue: isOpen ? 1 : 0,
+                duration: _animationDuration,
+                easing: RX.Animated.Easing.Out(),
+                useNativeDriver: true
+            })
+        ]);
+
+        this._animation = animation;
+        animation.start(() => {
+            if (animation !== this._animation) {
+                // The animation was stopped or superseded.
+                return;
+            }
+            this._animation = undefined;
+
+            if (isOpen && this.props.onDrawerOpened) {
+                this.props.onDrawerOpened();
+            } else if (!isOpen && this.props.onDrawerClosed) {
+                this.props.onDrawerClosed();
+            }
+        });
+    }
+
+    private _stopAnimation() {
+        if (this._animation) {
+            const animation = this._animation;
+            this._animation = undefined;
+            animation.stop();
+        }
+    }
+
+    private _setOpen(isOpen: boolean) {
+        if (isOpen === this.state.isOpen) {
+            return;
+        }
+
+        // Escape closes the drawer, so listen for it only while it's open.
+        if (isOpen) {
+            RX.Input.keyUpEvent.subscribe(this._onKeyUp);
+        } else {
+            RX.Input.keyUpEvent.unsubscribe(this._onKeyUp);
+        }
+
+        this.setState({ isOpen });
+    }
+
+    private _setProgress(progress: number) {
+        this._translateValue.setValue((1 - progress) * this._getClosedOffset(this.props));
+        this._overlayOpacityValue.setValue(progress);
+    }
+
+    private _onPanHorizontal = (gestureState: RX.Types.PanGestureState) => {
+        const drawerWidth = this._getDrawerWidth(this.props);
+        const isRight = this.props.drawerPosition === DrawerPosition.Right;
+
+        if (this._panStartProgress === undefined) {
+            this._stopAnimation();
+            this._panStartProgress = this.state.isOpen ? 1 : 0;
+        }
+
+        // Swiping towards the middle of the screen opens the drawer.
+        const direction = isRight ? -1 : 1;
+        const delta = (gestureState.clientX - gestureState.initialClientX) * direction / drawerWidth;
+        const progress = Math.max(0, Math.min(1, this._panStartProgress + delta));
+
+        if (!gestureState.isComplete) {
+            this._setProgress(progress);
+            return;
+        }
+
+        this._panStartProgress = undefined;
+
+        const velocity = gestureState.velocityX * direction;
+        if (velocity > _flingVelocity) {
+            this._animateTo(true);
+        } else if (velocity < -_flingVelocity) {
+            this._animateTo(false);
+        } else {
+            this._animateTo(progress > 0.5);
+        }
+    }
+
+    private _onPressOverlay = (e: RX.Types.SyntheticEvent) => {
+        e.stopPropagation();
+        this.closeDrawer();
+    }
+
+    private _onBackPress = (): boolean => {
+        if (this.state.isOpen) {
+            this.closeDrawer();
+            return true;
+        }
+        return false;
+    }
+
+    private _onKeyUp = (e: RX.Types.KeyboardEvent) => {
+        if (e.keyCode === _keyCodeEscape && this.state.isOpen) {
+            this.closeDrawer();
+            return true;
+        }
+        return false;
+    }
+
+    private _getDrawerWidth(props: DrawerNavigatorProps) {
+        return props.drawerWidth !== undefined ? props.drawerWidth : _defaultDrawerWidth;
+    }
+
+    private _getClosedOffset(props: DrawerNavigatorProps) {
+        const drawerWidth = this._getDrawerWidth(props);
+        return props.drawerPosition === DrawerPosition.Right ? drawerWidth : -drawerWidth;
+    }
+}
+
+export default DrawerNavigator;
@@ -0,0 +1,135 @@
+/**
+ * NavigatorStateStorage.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Persists a navigator's route stack in RX.Storage so apps that are
+ * killed by the OS can come back to the same screen.
+ */
+
+import * as RX from 'reactxp';
+import * as SyncTasks from 'synctasks';
+
+import * as _ from './lodashMini';
+import {
+    NavigatorProps,
+    NavigatorRoute,
+    RestoredRouteFilter,
+    SerializedNavigatorRoute,
+    SerializedNavigatorState
+} from './Types';
+
+// Bump when the serialized format changes incompatibly. States saved
+// with a different version are ignored.
+const _stateVersion = 1;
+
+export interface RestoredNavigatorState {
+    routes: NavigatorRoute[];
+    // Scroll positions of the restored routes, in the same order
+    scrollPositions: (number | undefined)[];
+}
+
+// The scroll positions of the routes' scenes are captured through the
+// navigator's getSceneScrollPosition prop.
+export function saveNavigatorState(storageKey: string, routes: NavigatorRoute[], props: NavigatorProps):
+        SyncTasks.Promise<void> {
+    const state: SerializedNavigatorState = {
+        version: _stateVersion,
+        routes: _.map(routes, route => _serializeRoute(route,
+            props.getSceneScrollPosition ? props.getSceneScrollPosition(route) : undefined))
+    };
+
+    return RX.Storage.setObject(storageKey, state);
+}
+
+// Resolves to the restored routes, or undefined if no valid state was saved
+// under the key or the filter dropped all of its routes.
+export function loadNavigatorState(storageKey: string, filter?: RestoredRouteFilter):
+        SyncTasks.Promise<RestoredNavigatorState | undefined> {
+    return RX.Storage.getObject<SerializedNavigatorState>(storageKey).then<RestoredNavigatorState | undefined>(state => {
+        if (!_isValidState(state)) {
+            return undefined;
+        }
+
+        const restoredState: RestoredNavigatorState = { routes: [], scrollPositions: [] };
+        state.routes.forEach(serializedRoute => {
+            const route = _deserializeRoute(serializedRoute);
+            const filteredRoute = filter ? filter(route) : route;
+            if (filteredRoute) {
+                restoredState.routes.push(filteredRoute);
+                restoredState.scrollPositions.push(serializedRoute.scrollPosition);
+            }
+        });
+
+        return restoredState.routes.length > 0 ? restoredState : undefined;
+    });
+}
+
+// Hands the scroll positions of the restored routes to the navigator's
+// restoreSceneScrollPosition prop. Called once the routes are presented.
+export function restoreSceneScrollPositions(restoredState: RestoredNavigatorState, props: NavigatorProps): void {
+    const restoreSceneScrollPosition = props.restoreSceneScrollPosition;
+    if (!restoreSceneScrollPosition) {
+        return;
+    }
+
+    restoredState.routes.forEach((route, index) => {
+        const scrollPosition = restoredState.scrollPositions[index];
+        if (scrollPosition !== undefined) {
+            restoreSceneScrollPosition(route, scrollPosition);
+        }
+    });
+}
+
+function _serializeRoute(route: NavigatorRoute, scrollPosition: number | undefined): SerializedNavigatorRoute {
+    const serializedRoute: SerializedNavigatorRoute = {
+        routeId: route.routeId,
+        sceneConfigType: route.sceneConfigType
+    };
+
+    if (route.gestureResponseDistance !== undefined) {
+        serializedRoute.gestureResponseDistance = route.gestureResponseDistance;
+    }
+    if (route.url !== undefined) {
+        serializedRoute.url = route.url;
+    }
+    if (route.params !== undefined) {
+        serializedRoute.params = _.clone(route.params);
+    }
+    if (scrollPosition !== undefined) {
+        serializedRoute.scrollPosition = scrollPosition;
+    }
+
+    return serializedRoute;
+}
+
+function _deserializeRoute(serializedRoute: SerializedNavigatorRoute): NavigatorRoute {
+    const route: NavigatorRoute = {
+        routeId: serializedRoute.routeId,
+        sceneConfigType: serializedRoute.sceneConfigType
+    };
+
+    if (serializedRoute.gestureResponseDistance !== undefined) {
+        route.gestureResponseDistance = serializedRoute.gestureResponseDistance;
+    }
+    if (serializedRoute.url !== undefined) {
+        route.url = serializedRoute.url;
+    }
+    if (serializedRoute.params !== undefined) {
+        route.params = _.clone(serializedRoute.params);
+    }
+
+    return route;
+}
+
+// The state may have been written by an older version of the app (or
+// modified outside of it), so check it before presenting anything.
+function _isValidState(state: SerializedNavigatorState | undefined): state is SerializedNavigatorState {
+    if (!state || state.version !== _stateVersion || !Array.isArray(state.routes)) {
+        return false;
+    }
+
+    return _.every(state.routes, route => !!route && _.isNumber(route.routeId) &&
+        _.isNumber(route.sceneConfigType) && (route.scrollPosition === undefined || _.isNumber(route.scrollPosition)));
+}
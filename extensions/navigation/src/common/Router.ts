@@ -0,0 +1,430 @@
+/**
+ * Router.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Maps URLs to navigator routes and keeps a Navigator's route stack in sync
+ * with the app's URL: the browser history on the web and incoming deep
+ * links on native platforms.
+ */
+
+import * as RX from 'reactxp';
+import * as SyncTasks from 'synctasks';
+
+import * as _ from './lodashMini';
+import {
+    Navigator,
+    NavigatorRoute,
+    NavigatorState,
+    RouteDefinition,
+    RouteGuard,
+    RouteGuardResult,
+    RouteMatch,
+    RouteParams,
+    RouterOptions
+} from './Types';
+
+// Guards that keep redirecting past this depth are assumed to form a cycle.
+const _maxRedirects = 10;
+
+const _httpOriginRegExp = /^https?:\/\/[^\/?#]*/i;
+
+interface CompiledRoute {
+    definition: RouteDefinition;
+    regExp: RegExp;
+    paramNames: string[];
+}
+
+interface RouterEntry {
+    // URL as it was navigated to (used to update the history)
+    url: string;
+    match: RouteMatch;
+}
+
+enum TransitionType {
+    Reset,
+    Push,
+    Replace,
+    Pop
+}
+
+enum HistoryUpdate {
+    // The URL has already been updated (e.g. by the browser's back button)
+    None,
+    Push,
+    Replace
+}
+
+export class Router {
+    private _routes: CompiledRoute[];
+    private _options: RouterOptions;
+    private _navigator: Navigator<NavigatorState> | undefined;
+
+    // Entries for the routes in the navigator's stack, in the same order.
+    private _entries: RouterEntry[] = [];
+
+    // Incremented for every transition so a transition whose guards are
+    // still pending is abandoned once a newer transition starts.
+    private _transitionCount = 0;
+
+    constructor(routes: RouteDefinition[], options?: RouterOptions) {
+        this._options = options || {};
+        this._routes = _.map(routes, definition => {
+            const paramNames: string[] = [];
+            return {
+                definition,
+                regExp: Router._compilePattern(definition.pattern, paramNames),
+                paramNames
+            };
+        });
+    }
+
+    // Starts keeping the navigator in sync with the URL and presents the
+    // route for the URL the app was launched with. Resolves to true if a
+    // route was presented.
+    attach(navigator: Navigator<NavigatorState>): SyncTasks.Promise<boolean> {
+        this.detach();
+
+        this._navigator = navigator;
+        navigator.setRoutesPoppedListener(this._onRoutesPopped);
+        RX.Linking.deepLinkRequestEvent.subscribe(this._onDeepLinkRequest);
+
+        return RX.Linking.getInitialUrl().then(initialUrl => {
+            if (initialUrl && this.match(initialUrl)) {
+                return this._transition(initialUrl, TransitionType.Reset, HistoryUpdate.None, 0);
+            }
+
+            if (this._options.defaultUrl) {
+                return this._transition(this._options.defaultUrl, TransitionType.Reset, HistoryUpdate.Replace, 0);
+            }
+
+            return false;
+        });
+    }
+
+    detach(): void {
+        if (this._navigator) {
+            RX.Linking.deepLinkRequestEvent.unsubscribe(this._onDeepLinkRequest);
+            this._navigator.setRoutesPoppedListener(undefined);
+            this._navigator = undefined;
+        }
+
+        this._entries = [];
+        this._transitionCount++;
+    }
+
+    // Returns the route definition match for the URL, if any.
+    match(url: string): RouteMatch | undefined {
+        const result = this._findRoute(url);
+        return result ? result.match : undefined;
+    }
+
+    // Navigates to the URL, pushing a new route onto the navigator (or replacing
+    // the top-most one). Resolves to true if the transition wasn't cancelled.
+    navigate(url: string, replace = false): SyncTasks.Promise<boolean> {
+        return this._transition(url,
+            replace ? TransitionType.Replace : TransitionType.Push,
+            replace ? HistoryUpdate.Replace : HistoryUpdate.Push, 0);
+    }
+
+    // Navigates back to the previous route, if there is one.
+    back(): boolean {
+        this._syncWithNavigator();
+
+        if (this._entries.length < 2) {
+            return false;
+        }
+
+        if (RX.Platform.getType() === 'web') {
+            // Let the browser update its history. The resulting deep link
+            // request pops the navigator.
+            window.history.back();
+        } else {
+            this._transition(this._entries[this._entries.length - 2].url, TransitionType.Pop, HistoryUpdate.None, 0);
+        }
+
+        return true;
+    }
+
+    getCurrentMatch(): RouteMatch | undefined {
+        this._syncWithNavigator();
+        return this._entries.length > 0 ? this._entries[this._entries.length - 1].match : undefined;
+    }
+
+    private _onDeepLinkRequest = (url: string) => {
+        this._syncWithNavigator();
+
+        const match = this.match(url);
+        const currentEntry = this._entries.length > 0 ? this._entries[this._entries.length - 1] : undefined;
+        if (match && currentEntry && match.url === currentEntry.match.url) {
+            // The route is already presented (e.g. the browser's history was
+            // moved back after the navigator popped routes by itself).
+            return;
+        }
+
+        // If the URL belongs to a route further down the stack (e.g. the
+        // user pressed the browser's back button), pop back to it.
+        const isEarlierEntry = !!match && _.findIndex(this._entries.slice(0, -1),
+            entry => entry.match.url === match.url) >= 0;
+
+        this._transition(url, isEarlierEntry ? TransitionType.Pop : TransitionType.Push, HistoryUpdate.None, 0);
+    }
+
+    // The navigator popped routes off its stack without going through the
+    // router (e.g. the user swiped back), so move the browser's history back
+    // to the route that is now presented.
+    private _onRoutesPopped = () => {
+        const entryCount = this._entries.length;
+        this._syncWithNavigator();
+
+        const poppedCount = entryCount - this._entries.length;
+        if (poppedCount > 0 && RX.Platform.getType() === 'web') {
+            window.history.go(-poppedCount);
+        }
+    }
+
+    private _transition(url: string, type: TransitionType, historyUpdate: HistoryUpdate,
+            redirectCount: number): SyncTasks.Promise<boolean> {
+        if (!this._navigator) {
+            return SyncTasks.Resolved(false);
+        }
+
+        this._syncWithNavigator();
+
+        const result = this._findRoute(url);
+        if (!result) {
+            this._restoreUrl(historyUpdate);
+            return SyncTasks.Resolved(false);
+        }
+
+        const { match, definition } = result;
+        const transitionCount = ++this._transitionCount;
+        const currentEntry = this._entries.length > 0 ? this._entries[this._entries.length - 1] : undefined;
+        const guards = (this._options.guards || []).concat(definition.guards || []);
+
+        return Router._runGuards(guards, match, currentEntry ? currentEntry.match : undefined).then(guardResult => {
+            if (transitionCount !== this._transitionCount) {
+                // A newer transition has started in the meantime.
+                return false;
+            }
+
+            if (typeof guardResult === 'string') {
+                if (redirectCount >= _maxRedirects) {
+                    console.error('Router: too many redirects while navigating to ' + url);
+                    this._restoreUrl(historyUpdate);
+                    return false;
+                }
+
+                // The browser already points at the URL that was redirected
+                // away from, so replace it rather than adding to the history.
+                const redirectType = type === TransitionType.Pop ? TransitionType.Push : type;
+                return this._transition(guardResult, redirectType,
+                    historyUpdate === HistoryUpdate.None ? HistoryUpdate.Replace : historyUpdate, redirectCount + 1);
+            }
+
+            if (!guardResult) {
+                this._restoreUrl(historyUpdate);
+                return false;
+            }
+
+            this._applyTransition({ url, match }, definition, type, historyUpdate);
+            return true;
+        });
+    }
+
+    private _applyTransition(entry: RouterEntry, definition: RouteDefinition, type: TransitionType,
+            historyUpdate: HistoryUpdate) {
+        const navigator = this._navigator!;
+
+        if (type === TransitionType.Pop) {
+            const index = _.findIndex(this._entries, existingEntry => existingEntry.match.url === entry.match.url);
+            if (index >= 0) {
+                navigator.popToRoute(navigator.getCurrentRoutes()[index]);
+                this._entries = this._entries.slice(0, index + 1);
+                this._updateHistory(entry.url, historyUpdate);
+                return;
+            }
+
+            // The route is no longer in the stack, so present it anew.
+            type = TransitionType.Push;
+        }
+
+        const route = this._createRoute(entry, definition);
+
+        switch (type) {
+            case TransitionType.Reset:
+                navigator.immediatelyResetRouteStack([route]);
+                this._entries = [entry];
+                break;
+
+            case TransitionType.Replace:
+                if (this._entries.length > 0) {
+                    navigator.replace(route);
+                    this._entries = this._entries.slice(0, -1).concat([entry]);
+                } else {
+                    navigator.immediatelyResetRouteStack([route]);
+                    this._entries = [entry];
+                }
+                break;
+
+            default:
+                navigator.push(route);
+                this._entries = this._entries.concat([entry]);
+                break;
+        }
+
+        this._updateHistory(entry.url, historyUpdate);
+    }
+
+    private _createRoute(entry: RouterEntry, definition: RouteDefinition): NavigatorRoute {
+        const route = _.clone(definition.createRoute(entry.match));
+        route.url = entry.url;
+        route.params = _.assign({}, entry.match.query, entry.match.params);
+        return route;
+    }
+
+    private _updateHistory(url: string, historyUpdate: HistoryUpdate) {
+        if (historyUpdate === HistoryUpdate.Push) {
+            RX.Linking.pushUrl(url);
+        } else if (historyUpdate === HistoryUpdate.Replace) {
+            RX.Linking.replaceUrl(url);
+        }
+    }
+
+    // If the browser navigated to a URL that the router didn't accept,
+    // point it back at the route that is presented.
+    private _restoreUrl(historyUpdate: HistoryUpdate) {
+        if (historyUpdate === HistoryUpdate.None && this._entries.length > 0) {
+            RX.Linking.pushUrl(this._entries[this._entries.length - 1].url);
+        }
+    }
+
+    // The navigator can also be popped without going through the router
+    // (e.g. by the Android back button), so drop the entries of any routes
+    // that are no longer in its stack.
+    private _syncWithNavigator() {
+        if (this._navigator) {
+            const routeCount = this._navigator.getCurrentRoutes().length;
+            if (routeCount < this._entries.length) {
+                this._entries = this._entries.slice(0, routeCount);
+            }
+        }
+    }
+
+    private _findRoute(url: string): { match: RouteMatch; definition: RouteDefinition } | undefined {
+        const { path, query } = this._parseUrl(url);
+
+        for (const route of this._routes) {
+            const result = route.regExp.exec(path);
+            if (result) {
+                const params: RouteParams = {};
+                route.paramNames.forEach((name, index) => {
+                    params[name] = Router._decode(result[index + 1]);
+                });
+
+                const match: RouteMatch = {
+                    url: path + (query ? '?' + query : ''),
+                    pattern: route.definition.pattern,
+                    params,
+                    query: Router._parseQuery(query)
+                };
+
+                return { match, definition: route.definition };
+            }
+        }
+
+        return undefined;
+    }
+
+    private _parseUrl(url: string): { path: string; query: string } {
+        let relativeUrl = url;
+
+        const prefix = _.find(this._options.prefixes || [], prefix => url.indexOf(prefix) === 0);
+        if (prefix) {
+            relativeUrl = url.substr(prefix.length);
+        } else {
+            relativeUrl = url.replace(_httpOriginRegExp, '');
+        }
+
+        // Fragments aren't considered when matching.
+        const fragmentIndex = relativeUrl.indexOf('#');
+        if (fragmentIndex >= 0) {
+            relativeUrl = relativeUrl.substr(0, fragmentIndex);
+        }
+
+        const queryIndex = relativeUrl.indexOf('?');
+        let path = queryIndex >= 0 ? relativeUrl.substr(0, queryIndex) : relativeUrl;
+        const query = queryIndex >= 0 ? relativeUrl.substr(queryIndex + 1) : '';
+
+        if (path.charAt(0) !== '/') {
+            path = '/' + path;
+        }
+
+        return { path, query };
+    }
+
+    private static _runGuards(guards: RouteGuard[], to: RouteMatch, from: RouteMatch | undefined):
+            SyncTasks.Promise<RouteGuardResult> {
+        let promise = SyncTasks.Resolved<RouteGuardResult>(true);
+
+        // Consult the guards in order, stopping at the first one that
+        // doesn't allow the transition.
+        guards.forEach(guard => {
+            promise = promise.then(result => result === true ? guard(to, from) : result);
+        });
+
+        // A guard that throws or rejects denies the transition, so the current
+        // route stays in place.
+        return promise.catch(error => {
+            console.error('Router: route guard failed while navigating to ' + to.url, error);
+            return false;
+        });
+    }
+
+    private static _compilePattern(pattern: string, paramNames: string[]): RegExp {
+        const segments = pattern.split('/').filter(segment => segment.length > 0);
+        let source = '';
+
+        segments.forEach((segment, index) => {
+            if (segment === '*' && index === segments.length - 1) {
+                source += '(?:/.*)?';
+            } else if (segment.charAt(0) === ':') {
+                paramNames.push(segment.substr(1));
+                source += '/([^/]+)';
+            } else {
+                source += '/' + segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            }
+        });
+
+        return new RegExp('^' + source + '/?$', 'i');
+    }
+
+    private static _parseQuery(query: string): RouteParams {
+        const params: RouteParams = {};
+
+        query.split('&').forEach(pair => {
+            if (!pair) {
+                return;
+            }
+
+            const separatorIndex = pair.indexOf('=');
+            const name = separatorIndex >= 0 ? pair.substr(0, separatorIndex) : pair;
+            const value = separatorIndex >= 0 ? pair.substr(separatorIndex + 1) : '';
+            params[Router._decode(name)] = Router._decode(value);
+        });
+
+        return params;
+    }
+
+    private static _decode(value: string): string {
+        try {
+            return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch (e) {
+            // Leave malformed escape sequences as they are.
+            return value;
+        }
+    }
+}
+
+export default Router;
@@ -0,0 +1,342 @@
+/**
+ * TabNavigator.tsx
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Presents a tab bar along with a stack navigator per tab. The stacks of
+ * tabs that aren't selected stay mounted, so switching back to a tab
+ * shows it the way the user left it.
+ */
+
+import * as React from 'react';
+import * as RX from 'reactxp';
+
+import * as _ from './lodashMini';
+import {
+    Navigator,
+    NavigatorProps,
+    NavigatorState,
+    TabBarPosition,
+    TabNavigatorProps,
+    TabNavigatorTab
+} from './Types';
+
+// Key codes as reported on the web, which is where keyboard users are.
+const _keyCodeEnd = 35;
+const _keyCodeHome = 36;
+const _keyCodeLeftArrow = 37;
+const _keyCodeRightArrow = 39;
+
+const _styles = {
+    container: RX.Styles.createViewStyle({
+        flex: 1,
+        flexDirection: 'column',
+        alignSelf: 'stretch',
+        overflow: 'hidden'
+    }),
+    content: RX.Styles.createViewStyle({
+        flex: 1,
+        alignSelf: 'stretch'
+    }),
+    tabContent: RX.Styles.createViewStyle({
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        top: 0,
+        bottom: 0
+    }),
+    hiddenTabContent: RX.Styles.createViewStyle({
+        opacity: 0
+    }),
+    tabBar: RX.Styles.createViewStyle({
+        flexDirection: 'row',
+        alignSelf: 'stretch'
+    }),
+    tab: RX.Styles.createButtonStyle({
+        flex: 1,
+        alignItems: 'center',
+        justifyContent: 'center',
+        paddingVertical: 8
+    }),
+    tabText: RX.Styles.createTextStyle({
+        fontSize: 12,
+        color: '#666'
+    }),
+    selectedTabText: RX.Styles.createTextStyle({
+        color: '#007aff'
+    })
+};
+
+export interface TabNavigatorState {
+    selectedTabKey: string | undefined;
+
+    // Tabs are mounted when they're first selected and then stay mounted.
+    visitedTabKeys: string[];
+}
+
+export abstract class TabNavigatorBase extends React.Component<TabNavigatorProps, TabNavigatorState> {
+    private _navigators: { [tabKey: string]: Navigator<NavigatorState> } = {};
+    private _navigatorRefCallbacks: { [tabKey: string]: (navigator: Navigator<NavigatorState> | null) => void } = {};
+    private _tabButtons: { [tabKey: string]: RX.Button } = {};
+    private _tabButtonRefCallbacks: { [tabKey: string]: (button: RX.Button | null) => void } = {};
+
+    constructor(props: TabNavigatorProps) {
+        super(props);
+
+        const selectedTabKey = TabNavigatorBase._getInitialTabKey(props);
+        this.state = {
+            selectedTabKey,
+            visitedTabKeys: selectedTabKey !== undefined ? [selectedTabKey] : []
+        };
+    }
+
+    componentDidMount() {
+        // The navigators of the tabs ignore the back button, so the selected
+        // tab's navigator is popped from here.
+        RX.Input.backButtonEvent.subscribe(this._onBackPress);
+    }
+
+    componentWillUnmount() {
+        RX.Input.backButtonEvent.unsubscribe(this._onBackPress);
+    }
+
+    componentWillReceiveProps(newProps: TabNavigatorProps) {
+        const tabKeys = _.map(newProps.tabs, tab => tab.key);
+        const visitedTabKeys = this.state.visitedTabKeys.filter(tabKey => tabKeys.indexOf(tabKey) >= 0);
+
+        if (this.state.selectedTabKey === undefined || tabKeys.indexOf(this.state.selectedTabKey) < 0) {
+            // The selected tab was removed.
+            const selectedTabKey = TabNavigatorBase._getInitialTabKey(newProps);
+            this.setState({
+                selectedTabKey,
+                visitedTabKeys: selectedTabKey !== undefined && visitedTabKeys.indexOf(selectedTabKey) < 0 ?
+                    visitedTabKeys.concat([selectedTabKey]) : visitedTabKeys
+            });
+        } else if (visitedTabKeys.length !== this.state.visitedTabKeys.length) {
+            this.setState({ visitedTabKeys });
+        }
+    }
+
+    render() {
+        const tabBar = this._renderTabBar();
+        const isTabBarOnTop = this.props.tabBarPosition === TabBarPosition.Top;
+
+        return (
+            <RX.View style={ _styles.container }>
+                { isTabBarOnTop ? tabBar : undefined }
+                <RX.View style={ _styles.content }>
+                    { this.props.tabs
+                        .filter(tab => this.state.visitedTabKeys.indexOf(tab.key) >= 0)
+                        .map(tab => this._renderTabContent(tab)) }
+                </RX.View>
+                { isTabBarOnTop ? undefined : tabBar }
+            </RX.View>
+        );
+    }
+
+    selectTab(tabKey: string): void {
+        if (tabKey === this.state.selectedTabKey || !_.find(this.props.tabs, tab => tab.key === tabKey)) {
+            return;
+        }
+
+        this.setState({
+            selectedTabKey: tabKey,
+            visitedTabKeys: this.state.visitedTabKeys.indexOf(tabKey) >= 0 ?
+                this.state.visitedTabKeys : this.state.visitedTabKeys.concat([tabKey])
+        });
+
+        if (this.props.onTabSelected) {
+            this.props.onTabSelected(tabKey);
+        }
+    }
+
+    getSelectedTabKey(): string | undefined {
+        return this.state.selectedTabKey;
+    }
+
+    // Returns the stack navigator of the tab if the tab has been mounted.
+    getNavigator(tabKey: string): Navigator<NavigatorState> | undefined {
+        return this._navigators[tabKey];
+    }
+
+    // Renders the platform's stack navigator.
+    protected abstract renderNavigator(props: NavigatorProps,
+        ref: (navigator: Navigator<NavigatorState> | null) => void): JSX.Element;
+
+    private _renderTabContent(tab: TabNavigatorTab) {
+        const isSelected = tab.key === this.state.selectedTabKey;
+
+        // Hidden tabs are taken out of the focus order and the accessibility tree.
+        return (
+            <RX.View
+                key={ tab.key }
+                style={ [_styles.tabContent, isSelected ? undefined : _styles.hiddenTabContent] }
+                blockPointerEvents={ !isSelected }
+                limitFocusWithin={ isSelected ? RX.Types.LimitFocusType.Unlimited : RX.Types.LimitFocusType.Limited }
+                importantForAccessibility={ isSelected ? RX.Types.ImportantForAccessibility.Auto :
+                    RX.Types.ImportantForAccessibility.NoHideDescendants }
+            >
+                { this.renderNavigator({
+                    renderScene: tab.renderScene,
+                    cardStyle: this.props.cardStyle,
+                    delegateSelector: this.props.delegateSelector,
+                    ignoreBackButton: true
+                }, this._getNavigatorRefCallback(tab.key)) }
+            </RX.View>
+        );
+    }
+
+    private _renderTabBar() {
+        return (
+            <RX.View
+                style={ [_styles.tabBar, this.props.tabBarStyle] }
+                accessibilityTraits={ RX.Types.AccessibilityTrait.TabList }
+            >
+                { _.map(this.props.tabs, tab => {
+                    const isSelected = tab.key === this.state.selectedTabKey;
+
+                    // Only the selected tab is in the tab order. The arrow keys
+                    // move between the tabs.
+                    return (
+                        <RX.Button
+                            key={ tab.key }
+                            ref={ this._getTabButtonRefCallback(tab.key) }
+                            style={ [_styles.tab, this.props.tabStyle, isSelected ? this.props.selectedTabStyle : undefined] }
+                            accessibilityLabel={ tab.title }
+                            accessibilityTraits={ isSelected ?
+                                [RX.Types.AccessibilityTrait.Tab, RX.Types.AccessibilityTrait.Selected] :
+                                RX.Types.AccessibilityTrait.Tab }
+                            tabIndex={ isSelected ? 0 : -1 }
+                            onPress={ () => this._onPressTab(tab.key) }
+                            onKeyPress={ this._onTabKeyPress }
+                        >
+                            { tab.renderIcon ? tab.renderIcon(isSelected) : undefined }
+                            <RX.Text
+                                style={ [_styles.tabText, this.props.tabTextStyle,
+                                    isSelected ? _styles.selectedTabText : undefined,
+                                    isSelected ? this.props.selectedTabTextStyle : undefined] }
+                            >
+                                { tab.title }
+                            </RX.Text>
+                        </RX.Button>
+                    );
+                }) }
+            </RX.View>
+        );
+    }
+
+    private _onPressTab(tabKey: string) {
+        if (tabKey === this.state.selectedTabKey) {
+            // Pressing the selected tab again returns to the root of its stack.
+            const navigator = this._navigators[tabKey];
+            if (navigator && navigator.getCurrentRoutes().length > 1) {
+                navigator.popToTop();
+            }
+        } else {
+            this.selectTab(tabKey);
+        }
+    }
+
+    private _onTabKeyPress = (e: RX.Types.KeyboardEvent) => {
+        const tabCount = this.props.tabs.length;
+        const selectedIndex = _.findIndex(this.props.tabs, tab => tab.key === this.state.selectedTabKey);
+        let index: number;
+
+        switch (e.keyCode) {
+            case _keyCodeLeftArrow:
+                index = (selectedIndex - 1 + tabCount) % tabCount;
+                break;
+
+            case _keyCodeRightArrow:
+                index = (selectedIndex + 1) % tabCount;
+                break;
+
+            case _keyCodeHome:
+                index = 0;
+                break;
+
+            case _keyCodeEnd:
+                index = tabCount - 1;
+                break;
+
+            default:
+                return;
+        }
+
+        e.preventDefault();
+
+        const tabKey = this.props.tabs[index].key;
+        this.selectTab(tabKey);
+
+        const button = this._tabButtons[tabKey];
+        if (button) {
+            button.focus();
+        }
+    }
+
+    private _onBackPress = (): boolean => {
+        if (this.state.selectedTabKey === undefined) {
+            return false;
+        }
+
+        const navigator = this._navigators[this.state.selectedTabKey];
+        if (navigator && navigator.getCurrentRoutes().length > 1) {
+            navigator.pop();
+            return true;
+        }
+
+        // At the root of any other tab, go back to the initial tab.
+        const initialTabKey = TabNavigatorBase._getInitialTabKey(this.props);
+        if (initialTabKey !== undefined && initialTabKey !== this.state.selectedTabKey) {
+            this.selectTab(initialTabKey);
+            return true;
+        }
+
+        return false;
+    }
+
+    // Ref callbacks are cached per tab so the refs aren't detached and
+    // reattached on every render.
+    private _getNavigatorRefCallback(tabKey: string) {
+        if (!this._navigatorRefCallbacks[tabKey]) {
+            this._navigatorRefCallbacks[tabKey] = (navigator: Navigator<NavigatorState> | null) => {
+                if (!navigator) {
+                    delete this._navigators[tabKey];
+                    return;
+                }
+
+                this._navigators[tabKey] = navigator;
+
+                // The navigator is mounted now, so its stack can be populated.
+                const tab = _.find(this.props.tabs, tab => tab.key === tabKey);
+                if (tab && navigator.getCurrentRoutes().length === 0) {
+                    navigator.immediatelyResetRouteStack([tab.initialRoute]);
+                }
+            };
+        }
+        return this._navigatorRefCallbacks[tabKey];
+    }
+
+    private _getTabButtonRefCallback(tabKey: string) {
+        if (!this._tabButtonRefCallbacks[tabKey]) {
+            this._tabButtonRefCallbacks[tabKey] = (button: RX.Button | null) => {
+                if (button) {
+                    this._tabButtons[tabKey] = button;
+                } else {
+                    delete this._tabButtons[tabKey];
+                }
+            };
+        }
+        return this._tabButtonRefCallbacks[tabKey];
+    }
+
+    private static _getInitialTabKey(props: TabNavigatorProps): string | undefined {
+        if (props.initialTabKey !== undefined && _.find(props.tabs, tab => tab.key === props.initialTabKey)) {
+            return props.initialTabKey;
+        }
+        return props.tabs.length > 0 ? props.tabs[0].key : undefined;
+    }
+}
+
+export default TabNavigatorBase;
@@ -9,6 +9,7 @@
 // Use only for type data
 import * as React from 'react';
 import * as RX from 'reactxp';
+import * as SyncTasks from 'synctasks';
 
 export type ReactNode = React.ReactNode;
 
@@ -28,15 +29,41 @@ export interface NavigatorRoute {
     // Route's animation configuration
     sceneConfigType: NavigatorSceneConfigType;
 
-    // NOTE: The following props are for the experimental navigator.
+    // NOTE: The following props are for the experimental navigator and the web navigator.
     // They aren't considered when working with the standard navigator.
     // Optional gesture response distance override
     // 0 is equivalent to disabling gestures
     gestureResponseDistance?: number;
-    // Optional custom scene config
+    // Optional custom scene config (the web navigator honors only its transitionStyle)
     customSceneConfig?: CustomNavigatorSceneConfig;
+
+    // Optional URL and parameters of the route (filled in by the Router)
+    url?: string;
+    params?: RouteParams;
+}
+
+// The persistable subset of a NavigatorRoute. Custom scene configs contain
+// functions, so they aren't persisted.
+export interface SerializedNavigatorRoute {
+    routeId: number;
+    sceneConfigType: NavigatorSceneConfigType;
+    gestureResponseDistance?: number;
+    url?: string;
+    params?: RouteParams;
+    // Captured through the navigator's getSceneScrollPosition prop
+    scrollPosition?: number;
 }
 
+export interface SerializedNavigatorState {
+    version: number;
+    routes: SerializedNavigatorRoute[];
+}
+
+// Called for each route restored by restoreState. Returns the route to
+// present (e.g. with its customSceneConfig reattached) or undefined to
+// drop it (e.g. because the app no longer knows its routeId).
+export type RestoredRouteFilter = (route: NavigatorRoute) => NavigatorRoute | undefined;
+
 // NOTE: Experimental navigator only
 export type NavigationTransitionSpec = {
     duration?: number;
@@ -45,7 +72,7 @@ export type NavigationTransitionSpec = {
     easing?: RX.Types.Animated.EasingFunction;
 };
 
-// NOTE: Experimental navigator only
+// NOTE: Experimental navigator and web navigator only
 export type NavigationTransitionStyleConfig = {
   // By default input range is defined as [index - 1, index, index + 1];
   // Input and output ranges must contain the same number of elements
@@ -56,7 +83,7 @@ export type NavigationTransitionStyleConfig = {
   translateYOutput: number | number[];
 };
 
-// NOTE: Experimental navigator only
+// NOTE: Experimental navigator and web navigator only
 export type CustomNavigatorSceneConfig = {
   // Optional transition styles
   transitionStyle: (sceneIndex: number, sceneDimensions: RX.Types.Dimensions) => NavigationTransitionStyleConfig;
@@ -78,10 +105,18 @@ export interface NavigatorProps extends RX.CommonProps {
   toRouteId?: string, fromRouteId?: string,
   toIndex?: number, fromIndex?: number) => void;
   transitionCompleted?: () => void;
+  // Called by serializeState to capture the scroll offset of a route's scene
+  getSceneScrollPosition?: (route: NavigatorRoute) => number | undefined;
+  // Called by restoreState, once the restored routes are presented, with the
+  // scroll offset captured for each of them
+  restoreSceneScrollPosition?: (route: NavigatorRoute, scrollPosition: number) => void;
   cardStyle?: RX.Types.ViewStyleRuleSet;
   children?: ReactNode;
   // Selector of the navigator delegate. Currently make difference only in react-native.
   delegateSelector?: NavigatorDelegateSelector;
+  // Leave the Android back button to a containing navigator (e.g. a TabNavigator).
+  // Currently make difference only in react-native.
+  ignoreBackButton?: boolean;
 }
 
 export enum CommandType {
@@ -105,6 +140,8 @@ export interface NavigatorState {
 }
 
 export abstract class Navigator<S> extends React.Component<NavigatorProps, S> {
+    private _routesPoppedListener: (() => void) | undefined;
+
     abstract push(route: NavigatorRoute): void;
     abstract pop(): void;
     abstract replace(route: NavigatorRoute): void;
@@ -114,6 +151,123 @@ export abstract class Navigator<S> extends React.Component<NavigatorProps, S> {
     abstract popToRoute(route: NavigatorRoute): void;
     abstract popToTop(): void;
     abstract getCurrentRoutes(): NavigatorRoute[];
+    abstract serializeState(storageKey: string): SyncTasks.Promise<void>;
+    abstract restoreState(storageKey: string, filter?: RestoredRouteFilter): SyncTasks.Promise<boolean>;
+
+    // Lets a Router follow the routes that are popped off the stack without
+    // going through it (e.g. when the user swipes back).
+    setRoutesPoppedListener(listener: (() => void) | undefined): void {
+        this._routesPoppedListener = listener;
+    }
+
+    protected _onRoutesPopped(): void {
+        if (this._routesPoppedListener) {
+            this._routesPoppedListener();
+        }
+    }
+}
+
+//
+// Router
+// ----------------------------------------------------------------------
+export type RouteParams = { [name: string]: string };
+
+export interface RouteMatch {
+    // The URL that was matched, relative to the router's prefixes
+    url: string;
+    // Pattern of the route definition that matched the URL
+    pattern: string;
+    // Values of the named path segments (e.g. ':userId')
+    params: RouteParams;
+    // Values of the query string parameters
+    query: RouteParams;
+}
+
+// A guard returns true to allow a transition, false to cancel it, or
+// a URL to redirect to.
+export type RouteGuardResult = boolean | string;
+export type RouteGuard = (to: RouteMatch, from: RouteMatch | undefined) =>
+    RouteGuardResult | SyncTasks.Promise<RouteGuardResult>;
+
+export interface RouteDefinition {
+    // Path pattern, e.g. '/users/:userId'. A trailing '*' matches any remainder.
+    pattern: string;
+    // Creates the navigator route that presents the matched URL
+    createRoute: (match: RouteMatch) => NavigatorRoute;
+    // Guards that are consulted before transitioning to this route
+    guards?: RouteGuard[];
+}
+
+export interface RouterOptions {
+    // URL prefixes that are removed before matching (e.g. 'myapp://' or
+    // 'https://example.com/app'). The origin of http(s) URLs is always removed.
+    prefixes?: string[];
+    // URL that is presented if the initial URL doesn't match any route
+    defaultUrl?: string;
+    // Guards that are consulted before every transition
+    guards?: RouteGuard[];
+}
+
+//
+// TabNavigator
+// ----------------------------------------------------------------------
+export interface TabNavigatorTab {
+    // Uniquely identifies the tab
+    key: string;
+    // Label of the tab's button
+    title: string;
+    // Route the tab's stack starts out with
+    initialRoute: NavigatorRoute;
+    // Called to render the scenes of the tab's stack
+    renderScene: (route: NavigatorRoute) => JSX.Element | null;
+    // Optionally renders an icon next to the tab's title
+    renderIcon?: (isSelected: boolean) => JSX.Element | null;
+}
+
+export enum TabBarPosition {
+    Bottom,
+    Top
+}
+
+export interface TabNavigatorProps extends RX.CommonProps {
+    tabs: TabNavigatorTab[];
+    // Key of the tab that is selected initially; defaults to the first tab
+    initialTabKey?: string;
+    tabBarPosition?: TabBarPosition;
+    onTabSelected?: (tabKey: string) => void;
+    // Passed on to the navigators of the tabs
+    cardStyle?: RX.Types.ViewStyleRuleSet;
+    delegateSelector?: NavigatorDelegateSelector;
+    tabBarStyle?: RX.Types.ViewStyleRuleSet;
+    tabStyle?: RX.Types.ButtonStyleRuleSet;
+    selectedTabStyle?: RX.Types.ButtonStyleRuleSet;
+    tabTextStyle?: RX.Types.TextStyleRuleSet;
+    selectedTabTextStyle?: RX.Types.TextStyleRuleSet;
+}
+
+//
+// DrawerNavigator
+// ----------------------------------------------------------------------
+export enum DrawerPosition {
+    Left,
+    Right
+}
+
+export interface DrawerNavigatorProps extends RX.CommonProps {
+    // Called to render the contents of the drawer
+    renderDrawer: () => JSX.Element | null;
+    // The main content, typically a Navigator or TabNavigator
+    children?: ReactNode;
+    drawerPosition?: DrawerPosition;
+    drawerWidth?: number;
+    // Width of the strip along the drawer's edge of the screen where a swipe
+    // opens the drawer; 0 disables opening the drawer by swiping
+    edgeSwipeWidth?: number;
+    drawerStyle?: RX.Types.ViewStyleRuleSet;
+    // Style of the overlay that covers the main content while the drawer is open
+    overlayStyle?: RX.Types.ViewStyleRuleSet;
+    onDrawerOpened?: () => void;
+    onDrawerClosed?: () => void;
 }
 
 export interface NavigatorDelegateSelector {
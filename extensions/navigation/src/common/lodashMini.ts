@@ -10,6 +10,9 @@
 import assign = require('lodash/assign');
 import clone = require('lodash/clone');
 import cloneDeep = require('lodash/cloneDeep');
+import every = require('lodash/every');
+import find = require('lodash/find');
+import findIndex = require('lodash/findIndex');
 import flatten = require('lodash/flatten');
 import get = require('lodash/get');
 import isEmpty = require('lodash/isEmpty');
@@ -26,6 +29,9 @@ export {
     assign,
     clone,
     cloneDeep,
+    every,
+    find,
+    findIndex,
     flatten,
     get,
     isEmpty,
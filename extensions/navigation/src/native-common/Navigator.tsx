@@ -6,8 +6,12 @@
  *
  * Common native implementation for Navigator on mobile.
  */
+import * as React from 'react';
 import * as RX from 'reactxp';
+import * as SyncTasks from 'synctasks';
 
+import { loadNavigatorState, restoreSceneScrollPositions, saveNavigatorState } from '../common/NavigatorStateStorage';
+import { TabNavigatorBase } from '../common/TabNavigator';
 import * as Types from '../common/Types';
 import {
     Navigator as BaseNavigator,
@@ -18,6 +22,7 @@ import {
     NavigatorProps,
     NavigatorRoute,
     CommandType,
+    RestoredRouteFilter,
 } from '../common/Types';
 import NavigatorExperimentalDelegate from './NavigatorExperimentalDelegate';
 
@@ -41,7 +46,9 @@ export class NavigatorImpl extends BaseNavigator<NavigatorState> {
     }
 
     componentDidMount() {
-        RX.Input.backButtonEvent.subscribe(this._delegate.onBackPress);
+        if (!this.props.ignoreBackButton) {
+            RX.Input.backButtonEvent.subscribe(this._delegate.onBackPress);
+        }
     }
 
     componentWillUnmount() {
@@ -134,6 +141,22 @@ export class NavigatorImpl extends BaseNavigator<NavigatorState> {
         return this.getRoutes();
     }
 
+    public serializeState(storageKey: string): SyncTasks.Promise<void> {
+        return saveNavigatorState(storageKey, this._delegate.getRoutes(), this.props);
+    }
+
+    public restoreState(storageKey: string, filter?: RestoredRouteFilter): SyncTasks.Promise<boolean> {
+        return loadNavigatorState(storageKey, filter).then(restoredState => {
+            if (!restoredState) {
+                return false;
+            }
+
+            this._delegate.immediatelyResetRouteStack(restoredState.routes);
+            restoreSceneScrollPositions(restoredState, this.props);
+            return true;
+        });
+    }
+
     // Render without initial route to get a reference for Navigator object
     public render(): JSX.Element {
         return this._delegate.render();
@@ -149,7 +172,15 @@ export class NavigatorImpl extends BaseNavigator<NavigatorState> {
     }
 }
 
+export class TabNavigator extends TabNavigatorBase {
+    protected renderNavigator(props: NavigatorProps, ref: (navigator: NavigatorImpl | null) => void): JSX.Element {
+        return <NavigatorImpl { ...props } ref={ ref } />;
+    }
+}
+
 export default NavigatorImpl;
 export const Navigator = NavigatorImpl;
 export const NavigatorDelegateSelector = new DefaultDelegateSelector();
 export { Types };
+export { DrawerNavigator } from '../common/DrawerNavigator';
+export { Router } from '../common/Router';
@@ -37,6 +37,9 @@ type NavigationTransitionProps = Navigation.NavigationTransitionProps;
 
 const StateUtils = Navigation.StateUtils;
 
+// Duration (in milliseconds) of the navigation library's default transition.
+const _defaultTransitionDuration = 250;
+
 interface NavigationRouteState extends NavigationRoute {
     route: NavigatorRoute;
 }
@@ -166,6 +169,15 @@ export class NavigatorExperimentalDelegate extends NavigatorDelegate {
             }
         }
 
+        // Reduced motion shortens or skips the transition.
+        if (RX.Accessibility.isReducedMotionEnabled()) {
+            const transitionSpec: Navigation.NavigationTransitionSpec = customSceneConfig && customSceneConfig.transitionSpec ?
+                _.clone(customSceneConfig.transitionSpec) : {};
+            transitionSpec.duration = RX.Accessibility.adjustAnimationDuration(
+                transitionSpec.duration !== undefined ? transitionSpec.duration : _defaultTransitionDuration);
+            customSceneConfig = { ...customSceneConfig, transitionSpec };
+        }
+
         // Fall back to 30 as a default for responseDistance
         if (!gestureDistanceSet) {
             responseDistance = 30;
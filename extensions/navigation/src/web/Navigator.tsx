@@ -15,8 +15,11 @@ import * as ReactDOM from 'react-dom';
 import * as RX from 'reactxp';
 import * as rebound from 'rebound';
 import { Styles, View } from 'reactxp';
+import * as SyncTasks from 'synctasks';
 
 import * as _ from '../common/lodashMini';
+import { loadNavigatorState, restoreSceneScrollPositions, saveNavigatorState } from '../common/NavigatorStateStorage';
+import { TabNavigatorBase } from '../common/TabNavigator';
 import * as Types from '../common/Types';
 import { NavigatorSceneConfigFactory, NavigatorSceneConfig } from './NavigatorSceneConfigFactory';
 import {
@@ -85,6 +88,39 @@ const _styles = {
     })
 };
 
+// Swipe-back gestures start at the edge of the navigator and are recognized once the touch
+// has moved this many pixels.
+const _swipeSlop = 10;
+
+// Swipes faster than this (in pixels per millisecond) complete or cancel the transition
+// regardless of how far the scene was dragged.
+const _swipeVelocityThreshold = 0.5;
+
+// Default distances from the edge within which a swipe-back gesture can start; they
+// match the ones used by the native navigator.
+const _defaultSwipeResponseDistance = 30;
+const _defaultVerticalSwipeResponseDistance = 150;
+
+// When reduced motion is enabled, transitions use critically damped springs that are
+// stiff enough to settle almost immediately (Skip) or within about 150ms (Shorten).
+const _skippedTransitionSpringTension = 160000;
+const _shortenedTransitionSpringTension = 3600;
+
+interface SwipeGesture {
+    // Vertical swipes start at the top edge, horizontal ones at the left edge.
+    isVertical: boolean;
+    startX: number;
+    startY: number;
+
+    // Set once the touch has moved far enough in the direction of the swipe.
+    isActive: boolean;
+
+    progress: number;
+    lastDistance: number;
+    lastTime: number;
+    velocity: number;
+}
+
 // Transition types
 export type TransitionToCallback = () => void;
 export type ReplaceAtIndexCallback = () => void;
@@ -141,6 +177,12 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
     // Cache the dimensions of the navigator so scenes can transition with that size in mind.
     private _dimensions: RX.Types.Dimensions;
 
+    // The swipe-back gesture that's being tracked, if any.
+    private _swipeGesture: SwipeGesture | undefined;
+
+    // Set while the scenes settle back into place after a swipe-back gesture was cancelled.
+    private _isCancellingSwipe = false;
+
     // Receives initial props and sets initial state for Navigator
     constructor(initialProps?: NavigatorProps) {
         super(initialProps);
@@ -212,6 +254,10 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
                 <View
                     style={ _styles.transitioner }
                     ref={ this._onMountContainer }
+                    onTouchStartCapture={ this._onTouchStart }
+                    onTouchMoveCapture={ this._onTouchMove }
+                    onResponderRelease={ this._onTouchEnd }
+                    onResponderTerminate={ this._onTouchEnd }
                 >
                     { scenes }
                 </View>
@@ -343,10 +389,155 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
         return this.state.routeStack.slice();
     }
 
+    // Persists the route stack (along with the routes' params and scroll
+    // positions) under the storage key.
+    serializeState(storageKey: string): SyncTasks.Promise<void> {
+        return saveNavigatorState(storageKey, this.state.routeStack, this.props);
+    }
+
+    // Replaces the route stack with the one saved under the storage key.
+    // Resolves to false if there was nothing to restore.
+    restoreState(storageKey: string, filter?: Types.RestoredRouteFilter): SyncTasks.Promise<boolean> {
+        return loadNavigatorState(storageKey, filter).then(restoredState => {
+            if (!restoredState) {
+                return false;
+            }
+
+            this.immediatelyResetRouteStack(restoredState.routes);
+            restoreSceneScrollPositions(restoredState, this.props);
+            return true;
+        });
+    }
+
     private _onMountContainer = (comp: RX.View | null) => {
         this._containerRef = comp;
     }
 
+    private _onTouchStart = (e: RX.Types.TouchEvent) => {
+        this._swipeGesture = undefined;
+
+        if (e.touches.length !== 1 || this.state.presentedIndex <= 0 || this.state.transitionFromIndex !== undefined ||
+                this.state.transitionQueue.length > 0 || this._isCancellingSwipe) {
+            return;
+        }
+
+        const transitioner = this._containerRef ? ReactDOM.findDOMNode(this._containerRef) as HTMLElement | null : null;
+        if (!transitioner) {
+            return;
+        }
+
+        const route = this.state.routeStack[this.state.presentedIndex];
+        const isVertical = route.sceneConfigType === Types.NavigatorSceneConfigType.FloatFromBottom;
+        const responseDistance = this._getSwipeResponseDistance(route);
+        const rect = transitioner.getBoundingClientRect();
+        const touch = e.touches[0];
+        const distanceFromEdge = isVertical ? touch.clientY - rect.top : touch.clientX - rect.left;
+
+        if (distanceFromEdge > responseDistance) {
+            return;
+        }
+
+        this._swipeGesture = {
+            isVertical,
+            startX: touch.clientX,
+            startY: touch.clientY,
+            isActive: false,
+            progress: 0,
+            lastDistance: 0,
+            lastTime: Date.now(),
+            velocity: 0
+        };
+    }
+
+    private _onTouchMove = (e: RX.Types.TouchEvent) => {
+        const gesture = this._swipeGesture;
+        if (!gesture || e.touches.length !== 1) {
+            return;
+        }
+
+        const touch = e.touches[0];
+        const deltaX = touch.clientX - gesture.startX;
+        const deltaY = touch.clientY - gesture.startY;
+        const distance = gesture.isVertical ? deltaY : deltaX;
+        const crossDistance = gesture.isVertical ? deltaX : deltaY;
+
+        if (!gesture.isActive) {
+            if (Math.abs(crossDistance) > _swipeSlop && Math.abs(crossDistance) > Math.abs(distance)) {
+                // The user is scrolling rather than swiping back.
+                this._swipeGesture = undefined;
+                return;
+            }
+
+            if (distance < _swipeSlop) {
+                return;
+            }
+
+            gesture.isActive = true;
+            this._enableScene(this.state.presentedIndex - 1, true);
+        }
+
+        const now = Date.now();
+        if (now > gesture.lastTime) {
+            gesture.velocity = (distance - gesture.lastDistance) / (now - gesture.lastTime);
+        }
+        gesture.lastDistance = distance;
+        gesture.lastTime = now;
+
+        const size = gesture.isVertical ? this._dimensions.height : this._dimensions.width;
+        gesture.progress = Math.max(0, Math.min(1, distance / size));
+
+        this._transitionBetween(this.state.presentedIndex, this.state.presentedIndex - 1, gesture.progress);
+    }
+
+    private _onTouchEnd = () => {
+        const gesture = this._swipeGesture;
+        this._swipeGesture = undefined;
+
+        if (!gesture || !gesture.isActive) {
+            return;
+        }
+
+        const size = gesture.isVertical ? this._dimensions.height : this._dimensions.width;
+
+        // The spring's velocity is expressed in progress per second.
+        const springVelocity = gesture.velocity * 1000 / size;
+
+        if (gesture.velocity > _swipeVelocityThreshold ||
+                (gesture.velocity > -_swipeVelocityThreshold && gesture.progress > 0.5)) {
+            // Finish the transition from where the gesture left off. The
+            // previous scene was already enabled when the gesture started.
+            this._popTo(this.state.presentedIndex - 1, Math.max(springVelocity, 0) || undefined, gesture.progress);
+        } else {
+            // Let the scenes settle back into place.
+            const sceneConfig = this.state.sceneConfigStack[this.state.presentedIndex];
+            this._isCancellingSwipe = true;
+            this.spring.setCurrentValue(gesture.progress);
+            this._configureSpring(sceneConfig);
+            this.spring.setVelocity(Math.min(springVelocity, 0));
+            this.spring.setEndValue(0);
+        }
+    }
+
+    // Determines how far from the edge a swipe-back gesture can start, the same way
+    // the native navigator does. Swiping back is disabled for fading transitions.
+    private _getSwipeResponseDistance(route: Types.NavigatorRoute): number {
+        if (route.gestureResponseDistance !== undefined && route.gestureResponseDistance !== null) {
+            return route.gestureResponseDistance;
+        }
+
+        switch (route.sceneConfigType) {
+            case Types.NavigatorSceneConfigType.FloatFromBottom:
+                return _defaultVerticalSwipeResponseDistance;
+
+            case Types.NavigatorSceneConfigType.Fade:
+            case Types.NavigatorSceneConfigType.FadeWithSlide:
+                return 0;
+
+            default:
+                return _defaultSwipeResponseDistance;
+        }
+    }
+
     private _updateDimensionsCache() {
         if (this._containerRef) {
             const transitioner = ReactDOM.findDOMNode(this._containerRef) as HTMLElement | null;
@@ -363,7 +554,7 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
     private _getSceneConfigFromRoute(route: Types.NavigatorRoute): NavigatorSceneConfig {
         // route exists? query the factory to generate a scene configuration
         if (route) {
-            return NavigatorSceneConfigFactory.createConfig(route.sceneConfigType);
+            return NavigatorSceneConfigFactory.createConfigForRoute(route);
         }
         return undefined;
     }
@@ -476,9 +667,7 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
         if (jumpSpringTo !== undefined) {
             this.spring.setCurrentValue(jumpSpringTo);
         }
-        this.spring.setOvershootClampingEnabled(true);
-        this.spring.getSpringConfig().friction = sceneConfig.springFriction;
-        this.spring.getSpringConfig().tension = sceneConfig.springTension;
+        this._configureSpring(sceneConfig);
         this.spring.setVelocity(velocity || sceneConfig.defaultTransitionVelocity);
         this.spring.setEndValue(1);
 
@@ -487,7 +676,35 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
         }
     }
 
+    private _configureSpring(sceneConfig: NavigatorSceneConfig) {
+        let tension = sceneConfig.springTension;
+        let friction = sceneConfig.springFriction;
+
+        if (RX.Accessibility.isReducedMotionEnabled()) {
+            const policy = RX.Accessibility.getReducedMotionPolicy();
+            if (policy === RX.Types.ReducedMotionPolicy.Skip) {
+                tension = _skippedTransitionSpringTension;
+                friction = 2 * Math.sqrt(tension);
+            } else if (policy === RX.Types.ReducedMotionPolicy.Shorten) {
+                tension = _shortenedTransitionSpringTension;
+                friction = 2 * Math.sqrt(tension);
+            }
+        }
+
+        this.spring.setOvershootClampingEnabled(true);
+        this.spring.getSpringConfig().friction = friction;
+        this.spring.getSpringConfig().tension = tension;
+    }
+
     private _completeTransition() {
+        if (this._isCancellingSwipe) {
+            // The scenes are back where they were before the swipe-back gesture.
+            this._isCancellingSwipe = false;
+            this.spring.setCurrentValue(0).setAtRest();
+            this._hideScenes();
+            return;
+        }
+
         let newState: NavigatorState = {};
 
         this.setState({
@@ -552,6 +769,12 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
                 this.state.presentedIndex,
                 this.spring.getCurrentValue()
             );
+        } else if (this._isCancellingSwipe) {
+            this._transitionBetween(
+                this.state.presentedIndex,
+                this.state.presentedIndex - 1,
+                this.spring.getCurrentValue()
+            );
         }
     }
 
@@ -572,11 +795,17 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
         }
 
         let styleToUse: RX.Types.ViewStyleRuleSet = {};
-        const useFn = index < fromIndex || index < toIndex ?
-            sceneConfig.animationInterpolators.out :
-            sceneConfig.animationInterpolators.into;
-        const directionAdjustedProgress = fromIndex < toIndex ? progress : 1 - progress;
-        const didChange = useFn(styleToUse, this._dimensions, directionAdjustedProgress);
+        let didChange: boolean;
+        if (sceneConfig.positionInterpolator) {
+            const position = fromIndex + (toIndex - fromIndex) * progress;
+            didChange = sceneConfig.positionInterpolator(styleToUse, this._dimensions, index, position);
+        } else {
+            const useFn = index < fromIndex || index < toIndex ?
+                sceneConfig.animationInterpolators.out :
+                sceneConfig.animationInterpolators.into;
+            const directionAdjustedProgress = fromIndex < toIndex ? progress : 1 - progress;
+            didChange = useFn(styleToUse, this._dimensions, directionAdjustedProgress);
+        }
         if (didChange) {
             this._setNativeStyles(viewAtIndex, styleToUse);
         }
@@ -615,15 +844,20 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
 
         const popIndex = this.state.presentedIndex - n;
         this._enableScene(popIndex);
+        this._popTo(popIndex);
+    }
+
+    // Transitions to the scene at popIndex, then removes the scenes above it.
+    private _popTo(popIndex: number, velocity?: number, jumpSpringTo?: number) {
+        this._transitionTo(popIndex, velocity, jumpSpringTo, () => {
+            this._cleanScenesPastIndex(popIndex);
 
-        this._transitionTo(
-            popIndex,
-            undefined, // default velocity
-            undefined, // no spring jumping
-            () => {
-                this._cleanScenesPastIndex(popIndex);
+            if (this.props.navigateBackCompleted) {
+                this.props.navigateBackCompleted();
             }
-        );
+
+            this._onRoutesPopped();
+        });
     }
 
     private _cleanScenesPastIndex(index: number) {
@@ -664,7 +898,15 @@ export class NavigatorImpl extends NavigatorBase<NavigatorState> {
     }
 }
 
+export class TabNavigator extends TabNavigatorBase {
+    protected renderNavigator(props: NavigatorProps, ref: (navigator: NavigatorImpl | null) => void): JSX.Element {
+        return <NavigatorImpl { ...props } ref={ ref } />;
+    }
+}
+
 export default NavigatorImpl;
 export const Navigator = NavigatorImpl;
 export const NavigatorDelegateSelector: DelegateSelector = undefined;
 export { Types };
+export { DrawerNavigator } from '../common/DrawerNavigator';
+export { Router } from '../common/Router';
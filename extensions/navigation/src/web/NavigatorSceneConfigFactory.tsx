@@ -21,6 +21,11 @@ export type Interpolator = (progress: number, dimension?: RX.Types.Dimensions) =
 export type InterpolatorWrapper = (previousStyleSet: RX.Types.ViewStyleRuleSet,
     dimensions: RX.Types.Dimensions, progress: number) => boolean;
 
+// Interpolator for custom scene configs, which style each scene based on its index and
+// the navigator's position (e.g. 1.5 halfway through the transition from index 1 to 2)
+export type PositionInterpolatorWrapper = (previousStyleSet: RX.Types.ViewStyleRuleSet,
+    dimensions: RX.Types.Dimensions, sceneIndex: number, position: number) => boolean;
+
 // Interface to define the transition styles for multiple views
 export interface TransitionStyle {
     translateX?: (progress: number, dimension: RX.Types.Dimensions) => string;
@@ -103,6 +108,41 @@ class SceneConfigStyles {
         opacity: 1
     };
 
+    // Interpolates a custom transition style the same way the native navigator does: each output
+    // range is mapped linearly onto the input range, which defaults to the neighboring indices.
+    public static interpolateTransitionStyle(config: Types.NavigationTransitionStyleConfig,
+            sceneIndex: number, position: number): { [name: string]: string | number } {
+        const inputRange = config.inputRange || [sceneIndex - 1, sceneIndex, sceneIndex + 1];
+        const interpolate = (output: number | number[]) => {
+            return _.isNumber(output) ? output : SceneConfigStyles._interpolate(inputRange, output, position);
+        };
+
+        const scale = interpolate(config.scaleOutput);
+        return {
+            opacity: interpolate(config.opacityOutput),
+            translateX: interpolate(config.translateXOutput) + 'px',
+            translateY: interpolate(config.translateYOutput) + 'px',
+            scaleX: scale,
+            scaleY: scale
+        };
+    }
+
+    private static _interpolate(inputRange: number[], outputRange: number[], input: number): number {
+        // Values outside of the input range are clamped.
+        if (input <= inputRange[0]) {
+            return outputRange[0];
+        }
+
+        for (let i = 1; i < inputRange.length; i++) {
+            if (input <= inputRange[i]) {
+                const segmentProgress = (input - inputRange[i - 1]) / (inputRange[i] - inputRange[i - 1]);
+                return outputRange[i - 1] + (outputRange[i] - outputRange[i - 1]) * segmentProgress;
+            }
+        }
+
+        return outputRange[outputRange.length - 1];
+    }
+
     /* tslint:enable:no-unused-variable */
     // CSS requires all transforms to be combined into one transform property. bundleCompoundStyles searches a style
     // definition for separate transforms and melts it down to a "transform" property.
@@ -156,6 +196,9 @@ export class NavigatorSceneConfig {
         out: InterpolatorWrapper;
     };
 
+    // Set for custom scene configs, in which case it's used instead of the animation interpolators
+    public positionInterpolator: PositionInterpolatorWrapper | undefined;
+
     constructor (intoStyle: TransitionStyle, outStyle: TransitionStyle) {
         // Into, Out interpolators are required to do a scene transition
         this.animationInterpolators = {
@@ -164,6 +207,17 @@ export class NavigatorSceneConfig {
         };
     }
 
+    public setCustomTransitionStyle(transitionStyle: (sceneIndex: number, sceneDimensions: RX.Types.Dimensions) =>
+            Types.NavigationTransitionStyleConfig) {
+        this.positionInterpolator = (previousStyleSet: RX.Types.ViewStyleRuleSet, dimensions: RX.Types.Dimensions,
+                sceneIndex: number, position: number): boolean => {
+            const config = transitionStyle(sceneIndex, dimensions);
+            const newStyleSet = SceneConfigStyles.bundleCompoundStyles(
+                SceneConfigStyles.interpolateTransitionStyle(config, sceneIndex, position));
+            return NavigatorSceneConfig._updateStyleSet(previousStyleSet, newStyleSet);
+        };
+    }
+
     // Private method that hangs as a callback on animationInterpolator object
     // It calculates new styles and updates the previousStyles object sent to decide
     // if the animation triggered or not in the component that calls it
@@ -175,26 +229,40 @@ export class NavigatorSceneConfig {
                     return _.isNumber(interpolator) ? interpolator : interpolator(progress, dimensions);
                 }) as any);
 
-            // Check if anything has changed since last frame.
-            if (_.isEqual(previousStyleSet, newStyleSet)) {
-                return false;
-            }
+            return NavigatorSceneConfig._updateStyleSet(previousStyleSet, newStyleSet);
+        };
+    }
 
-            // Copy the new props into the previous object.
-            for (let prop in newStyleSet) {
-                if (newStyleSet.hasOwnProperty(prop)) {
-                    _.assign(previousStyleSet, {[prop]: _.get(newStyleSet, prop)});
-                }
+    private static _updateStyleSet(previousStyleSet: RX.Types.ViewStyleRuleSet, newStyleSet: any): boolean {
+        // Check if anything has changed since last frame.
+        if (_.isEqual(previousStyleSet, newStyleSet)) {
+            return false;
+        }
+
+        // Copy the new props into the previous object.
+        for (let prop in newStyleSet) {
+            if (newStyleSet.hasOwnProperty(prop)) {
+                _.assign(previousStyleSet, {[prop]: _.get(newStyleSet, prop)});
             }
+        }
 
-            return true;
-        };
+        return true;
     }
 }
 
 // Factory class to create Navigator scene configurations for each type of transition between routes
 export class NavigatorSceneConfigFactory {
 
+    // Helper method that creates an Animation config for a route, using the route's custom
+    // transition style if it has one
+    public static createConfigForRoute (route: Types.NavigatorRoute): NavigatorSceneConfig {
+        const config = NavigatorSceneConfigFactory.createConfig(route.sceneConfigType);
+        if (route.customSceneConfig && route.customSceneConfig.transitionStyle) {
+            config.setCustomTransitionStyle(route.customSceneConfig.transitionStyle);
+        }
+        return config;
+    }
+
     // Helper method that creates a new Animation config for a scene
     public static createConfig (configType: Types.NavigatorSceneConfigType): NavigatorSceneConfig {
         switch (configType) {
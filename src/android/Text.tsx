@@ -14,6 +14,7 @@ import AccessibilityUtil from '../native-common/AccessibilityUtil';
 import { Types } from '../common/Interfaces';
 import Styles from '../native-common/Styles';
 import { Text as CommonText } from '../native-common/Text';
+import Themes from '../common/Themes';
 
 const _styles = {
     defaultText: Styles.createTextStyle({
@@ -24,7 +25,7 @@ const _styles = {
 
 export class Text extends CommonText {
     protected _getStyles(): Types.StyleRuleSetRecursiveArray<Types.TextStyleRuleSet> {
-        return [_styles.defaultText, this.props.style];
+        return [_styles.defaultText, Themes.resolveStyles(this.props.style)];
     }
 
     // We override the render method to work around a couple of Android-specific
@@ -11,6 +11,14 @@ import SubscribableEvent from 'subscribableevent';
 
 import * as RX from '../common/Interfaces';
 
+// Longest duration (in milliseconds) of animations that are shortened because
+// reduced motion is enabled.
+const _shortenedAnimationDuration = 100;
+
+// Some platforms create more than one instance of this class, so the policy
+// is shared by all of them.
+let _reducedMotionPolicy = RX.Types.ReducedMotionPolicy.Skip;
+
 export abstract class Accessibility extends RX.Accessibility {
     abstract isScreenReaderEnabled(): boolean;
 
@@ -20,6 +28,37 @@ export abstract class Accessibility extends RX.Accessibility {
         return false;
     }
 
+    isReducedMotionEnabled(): boolean {
+        return false;
+    }
+
+    setReducedMotionPolicy(policy: RX.Types.ReducedMotionPolicy): void {
+        _reducedMotionPolicy = policy;
+    }
+
+    getReducedMotionPolicy(): RX.Types.ReducedMotionPolicy {
+        return _reducedMotionPolicy;
+    }
+
+    // Returns the duration that an animation of the specified duration should
+    // have, taking the reduced motion setting and policy into account.
+    adjustAnimationDuration(duration: number): number {
+        if (!this.isReducedMotionEnabled()) {
+            return duration;
+        }
+
+        switch (_reducedMotionPolicy) {
+            case RX.Types.ReducedMotionPolicy.Skip:
+                return 0;
+
+            case RX.Types.ReducedMotionPolicy.Shorten:
+                return Math.min(duration, _shortenedAnimationDuration);
+
+            default:
+                return duration;
+        }
+    }
+
     newAnnouncementReadyEvent = new SubscribableEvent<(announcement: string) => void>();
     announceForAccessibility(announcement: string): void {
        this.newAnnouncementReadyEvent.fire(announcement);
@@ -0,0 +1,63 @@
+/**
+ * AnimatedKeyframes.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Converts the keyframes of a keyframe animation into the segments between
+ * them, which is how the platform implementations run them.
+ */
+
+import * as RX from './Interfaces';
+
+export interface KeyframeSegment {
+    toValue: number;
+
+    // In milliseconds
+    duration: number;
+
+    // Undefined for linear segments
+    easing: RX.Types.Animated.EasingFunction | undefined;
+}
+
+// Returns the segments of the animation in order. The first segment starts at
+// the value's current value. If the last keyframe is before the end of the
+// animation, the last segment holds its value until the end.
+export function getKeyframeSegments(keyframes: RX.Types.Animated.Keyframe[], duration: number): KeyframeSegment[] {
+    if (!keyframes || keyframes.length === 0) {
+        throw new Error('Keyframe animation requires at least one keyframe');
+    }
+
+    if (!(duration >= 0)) {
+        throw new Error('The duration of a keyframe animation must not be negative');
+    }
+
+    const segments: KeyframeSegment[] = [];
+    let previousOffset = 0;
+    let previousEasing: RX.Types.Animated.EasingFunction | undefined;
+
+    keyframes.forEach(keyframe => {
+        if (!(keyframe.offset >= previousOffset && keyframe.offset <= 1)) {
+            throw new Error('Keyframe offsets must be between 0 and 1 and in increasing order');
+        }
+
+        segments.push({
+            toValue: keyframe.value,
+            duration: (keyframe.offset - previousOffset) * duration,
+            easing: previousEasing
+        });
+
+        previousOffset = keyframe.offset;
+        previousEasing = keyframe.easing;
+    });
+
+    if (previousOffset < 1) {
+        segments.push({
+            toValue: keyframes[keyframes.length - 1].value,
+            duration: (1 - previousOffset) * duration,
+            easing: undefined
+        });
+    }
+
+    return segments;
+}
@@ -0,0 +1,310 @@
+/**
+ * Colors.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Parses and interpolates CSS colors. Both animated implementations use it,
+ * so colors are interpolated the same way on all platforms.
+ */
+
+export interface RgbaColor {
+    // 0 to 255
+    r: number;
+    g: number;
+    b: number;
+
+    // 0 to 1
+    a: number;
+}
+
+// CSS named colors (other than "transparent") as 0xRRGGBB.
+const _namedColors: { [name: string]: number } = {
+    aliceblue: 0xf0f8ff,
+    antiquewhite: 0xfaebd7,
+    aqua: 0x00ffff,
+    aquamarine: 0x7fffd4,
+    azure: 0xf0ffff,
+    beige: 0xf5f5dc,
+    bisque: 0xffe4c4,
+    black: 0x000000,
+    blanchedalmond: 0xffebcd,
+    blue: 0x0000ff,
+    blueviolet: 0x8a2be2,
+    brown: 0xa52a2a,
+    burlywood: 0xdeb887,
+    cadetblue: 0x5f9ea0,
+    chartreuse: 0x7fff00,
+    chocolate: 0xd2691e,
+    coral: 0xff7f50,
+    cornflowerblue: 0x6495ed,
+    cornsilk: 0xfff8dc,
+    crimson: 0xdc143c,
+    cyan: 0x00ffff,
+    darkblue: 0x00008b,
+    darkcyan: 0x008b8b,
+    darkgoldenrod: 0xb8860b,
+    darkgray: 0xa9a9a9,
+    darkgreen: 0x006400,
+    darkgrey: 0xa9a9a9,
+    darkkhaki: 0xbdb76b,
+    darkmagenta: 0x8b008b,
+    darkolivegreen: 0x556b2f,
+    darkorange: 0xff8c00,
+    darkorchid: 0x9932cc,
+    darkred: 0x8b0000,
+    darksalmon: 0xe9967a,
+    darkseagreen: 0x8fbc8f,
+    darkslateblue: 0x483d8b,
+    darkslategray: 0x2f4f4f,
+    darkslategrey: 0x2f4f4f,
+    darkturquoise: 0x00ced1,
+    darkviolet: 0x9400d3,
+    deeppink: 0xff1493,
+    deepskyblue: 0x00bfff,
+    dimgray: 0x696969,
+    dimgrey: 0x696969,
+    dodgerblue: 0x1e90ff,
+    firebrick: 0xb22222,
+    floralwhite: 0xfffaf0,
+    forestgreen: 0x228b22,
+    fuchsia: 0xff00ff,
+    gainsboro: 0xdcdcdc,
+    ghostwhite: 0xf8f8ff,
+    gold: 0xffd700,
+    goldenrod: 0xdaa520,
+    gray: 0x808080,
+    green: 0x008000,
+    greenyellow: 0xadff2f,
+    grey: 0x808080,
+    honeydew: 0xf0fff0,
+    hotpink: 0xff69b4,
+    indianred: 0xcd5c5c,
+    indigo: 0x4b0082,
+    ivory: 0xfffff0,
+    khaki: 0xf0e68c,
+    lavender: 0xe6e6fa,
+    lavenderblush: 0xfff0f5,
+    lawngreen: 0x7cfc00,
+    lemonchiffon: 0xfffacd,
+    lightblue: 0xadd8e6,
+    lightcoral: 0xf08080,
+    lightcyan: 0xe0ffff,
+    lightgoldenrodyellow: 0xfafad2,
+    lightgray: 0xd3d3d3,
+    lightgreen: 0x90ee90,
+    lightgrey: 0xd3d3d3,
+    lightpink: 0xffb6c1,
+    lightsalmon: 0xffa07a,
+    lightseagreen: 0x20b2aa,
+    lightskyblue: 0x87cefa,
+    lightslategray: 0x778899,
+    lightslategrey: 0x778899,
+    lightsteelblue: 0xb0c4de,
+    lightyellow: 0xffffe0,
+    lime: 0x00ff00,
+    limegreen: 0x32cd32,
+    linen: 0xfaf0e6,
+    magenta: 0xff00ff,
+    maroon: 0x800000,
+    mediumaquamarine: 0x66cdaa,
+    mediumblue: 0x0000cd,
+    mediumorchid: 0xba55d3,
+    mediumpurple: 0x9370db,
+    mediumseagreen: 0x3cb371,
+    mediumslateblue: 0x7b68ee,
+    mediumspringgreen: 0x00fa9a,
+    mediumturquoise: 0x48d1cc,
+    mediumvioletred: 0xc71585,
+    midnightblue: 0x191970,
+    mintcream: 0xf5fffa,
+    mistyrose: 0xffe4e1,
+    moccasin: 0xffe4b5,
+    navajowhite: 0xffdead,
+    navy: 0x000080,
+    oldlace: 0xfdf5e6,
+    olive: 0x808000,
+    olivedrab: 0x6b8e23,
+    orange: 0xffa500,
+    orangered: 0xff4500,
+    orchid: 0xda70d6,
+    palegoldenrod: 0xeee8aa,
+    palegreen: 0x98fb98,
+    paleturquoise: 0xafeeee,
+    palevioletred: 0xdb7093,
+    papayawhip: 0xffefd5,
+    peachpuff: 0xffdab9,
+    peru: 0xcd853f,
+    pink: 0xffc0cb,
+    plum: 0xdda0dd,
+    powderblue: 0xb0e0e6,
+    purple: 0x800080,
+    rebeccapurple: 0x663399,
+    red: 0xff0000,
+    rosybrown: 0xbc8f8f,
+    royalblue: 0x4169e1,
+    saddlebrown: 0x8b4513,
+    salmon: 0xfa8072,
+    sandybrown: 0xf4a460,
+    seagreen: 0x2e8b57,
+    seashell: 0xfff5ee,
+    sienna: 0xa0522d,
+    silver: 0xc0c0c0,
+    skyblue: 0x87ceeb,
+    slateblue: 0x6a5acd,
+    slategray: 0x708090,
+    slategrey: 0x708090,
+    snow: 0xfffafa,
+    springgreen: 0x00ff7f,
+    steelblue: 0x4682b4,
+    tan: 0xd2b48c,
+    teal: 0x008080,
+    thistle: 0xd8bfd8,
+    tomato: 0xff6347,
+    turquoise: 0x40e0d0,
+    violet: 0xee82ee,
+    wheat: 0xf5deb3,
+    white: 0xffffff,
+    whitesmoke: 0xf5f5f5,
+    yellow: 0xffff00,
+    yellowgreen: 0x9acd32
+};
+
+const _hexColorRegex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const _functionalColorRegex = /^(rgba?|hsla?)\(([^)]*)\)$/i;
+
+// Returns undefined if the string isn't a color in one of the supported formats:
+// hex (3, 4, 6 or 8 digits), rgb(), rgba(), hsl(), hsla() and named colors.
+export function parseColor(color: string): RgbaColor | undefined {
+    const trimmedColor = color.trim().toLowerCase();
+
+    if (trimmedColor === 'transparent') {
+        return { r: 0, g: 0, b: 0, a: 0 };
+    }
+
+    if (_namedColors.hasOwnProperty(trimmedColor)) {
+        const rgb = _namedColors[trimmedColor];
+        return { r: (rgb >> 16) & 0xff, g: (rgb >> 8) & 0xff, b: rgb & 0xff, a: 1 };
+    }
+
+    const hexMatch = _hexColorRegex.exec(trimmedColor);
+    if (hexMatch) {
+        let digits = hexMatch[1];
+        if (digits.length <= 4) {
+            // Expand the short form, e.g. #f80 to #ff8800.
+            digits = digits.split('').map(digit => digit + digit).join('');
+        }
+
+        return {
+            r: parseInt(digits.substr(0, 2), 16),
+            g: parseInt(digits.substr(2, 2), 16),
+            b: parseInt(digits.substr(4, 2), 16),
+            a: digits.length === 8 ? parseInt(digits.substr(6, 2), 16) / 255 : 1
+        };
+    }
+
+    const functionalMatch = _functionalColorRegex.exec(trimmedColor);
+    if (functionalMatch) {
+        // Both the comma-separated and the space-separated syntax are supported,
+        // e.g. rgba(255, 0, 0, 0.5) and rgb(255 0 0 / 50%).
+        const args = functionalMatch[2].trim().split(/\s*[,\/]\s*|\s+/);
+        if (args.length !== 3 && args.length !== 4) {
+            return undefined;
+        }
+
+        const alpha = args.length === 4 ? _parseComponent(args[3], 1) : 1;
+        if (functionalMatch[1].charAt(0) === 'r') {
+            const r = _parseComponent(args[0], 255);
+            const g = _parseComponent(args[1], 255);
+            const b = _parseComponent(args[2], 255);
+            if (r === undefined || g === undefined || b === undefined || alpha === undefined) {
+                return undefined;
+            }
+
+            return { r: _clamp(r, 255), g: _clamp(g, 255), b: _clamp(b, 255), a: _clamp(alpha, 1) };
+        }
+
+        const hue = parseFloat(args[0]);
+        const saturation = _parsePercentage(args[1]);
+        const lightness = _parsePercentage(args[2]);
+        if (isNaN(hue) || saturation === undefined || lightness === undefined || alpha === undefined) {
+            return undefined;
+        }
+
+        return _hslToRgba(hue, _clamp(saturation, 1), _clamp(lightness, 1), _clamp(alpha, 1));
+    }
+
+    return undefined;
+}
+
+// Formats the color as an rgba() string, which all platforms support.
+export function formatColor(color: RgbaColor): string {
+    return 'rgba(' + Math.round(color.r) + ', ' + Math.round(color.g) + ', ' + Math.round(color.b) + ', ' +
+        color.a + ')';
+}
+
+// Interpolates each component separately, the way React Native does.
+export function interpolateColor(from: RgbaColor, to: RgbaColor, ratio: number): RgbaColor {
+    return {
+        r: from.r + (to.r - from.r) * ratio,
+        g: from.g + (to.g - from.g) * ratio,
+        b: from.b + (to.b - from.b) * ratio,
+        a: from.a + (to.a - from.a) * ratio
+    };
+}
+
+// Parses a number, or a percentage of the specified maximum.
+function _parseComponent(value: string, max: number): number | undefined {
+    const isPercentage = value.charAt(value.length - 1) === '%';
+    const numericValue = parseFloat(value);
+    if (isNaN(numericValue)) {
+        return undefined;
+    }
+
+    return isPercentage ? numericValue / 100 * max : numericValue;
+}
+
+function _parsePercentage(value: string): number | undefined {
+    if (value.charAt(value.length - 1) !== '%') {
+        return undefined;
+    }
+
+    return _parseComponent(value, 1);
+}
+
+function _clamp(value: number, max: number): number {
+    return Math.min(Math.max(value, 0), max);
+}
+
+function _hslToRgba(hue: number, saturation: number, lightness: number, alpha: number): RgbaColor {
+    const normalizedHue = ((hue % 360) + 360) % 360 / 360;
+    const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+    const p = 2 * lightness - q;
+
+    return {
+        r: _hueToRgb(p, q, normalizedHue + 1 / 3) * 255,
+        g: _hueToRgb(p, q, normalizedHue) * 255,
+        b: _hueToRgb(p, q, normalizedHue - 1 / 3) * 255,
+        a: alpha
+    };
+}
+
+function _hueToRgb(p: number, q: number, t: number): number {
+    if (t < 0) {
+        t += 1;
+    }
+    if (t > 1) {
+        t -= 1;
+    }
+
+    if (t < 1 / 6) {
+        return p + (q - p) * 6 * t;
+    }
+    if (t < 1 / 2) {
+        return q;
+    }
+    if (t < 2 / 3) {
+        return p + (q - p) * (2 / 3 - t) * 6;
+    }
+    return p;
+}
@@ -94,6 +94,9 @@ export abstract class UserInterface {
     // Keyboard navigation
     abstract isNavigatingWithKeyboard(): boolean;
     keyboardNavigationEvent = new SubscribableEvent<(isNavigatingWithKeyboard: boolean) => void>();
+
+    // Layout Animations
+    abstract configureNextLayoutAnimation(config?: Types.LayoutAnimationConfig): void;
 }
 
 export abstract class Modal {
@@ -116,6 +119,10 @@ export abstract class Linking {
     abstract getInitialUrl(): SyncTasks.Promise<string | undefined>;
     deepLinkRequestEvent = new SubscribableEvent<(url: string) => void>();
 
+    // In-app URL history (web only). These don't trigger deepLinkRequestEvent.
+    abstract pushUrl(url: string): void;
+    abstract replaceUrl(url: string): void;
+
     // Outgoing deep links
     abstract openUrl(url: string): SyncTasks.Promise<void>;
     abstract launchSms(smsData: Types.SmsInfo): SyncTasks.Promise<void>;
@@ -127,9 +134,14 @@ export abstract class Linking {
 export abstract class Accessibility {
     abstract isScreenReaderEnabled(): boolean;
     abstract isHighContrastEnabled(): boolean;
+    abstract isReducedMotionEnabled(): boolean;
     abstract announceForAccessibility(announcement: string): void;
+    abstract setReducedMotionPolicy(policy: Types.ReducedMotionPolicy): void;
+    abstract getReducedMotionPolicy(): Types.ReducedMotionPolicy;
+    abstract adjustAnimationDuration(duration: number): number;
     screenReaderChangedEvent = new SubscribableEvent<(isEnabled: boolean) => void>();
     highContrastChangedEvent = new SubscribableEvent<(isEnabled: boolean) => void>();
+    reducedMotionChangedEvent = new SubscribableEvent<(isEnabled: boolean) => void>();
 }
 
 export interface FocusableComponent {
@@ -176,6 +188,49 @@ export abstract class Storage {
     abstract setItem(key: string, value: string): SyncTasks.Promise<void>;
     abstract removeItem(key: string): SyncTasks.Promise<void>;
     abstract clear(): SyncTasks.Promise<void>;
+
+    // Batch operations
+    abstract getAllKeys(): SyncTasks.Promise<string[]>;
+    abstract multiGet(keys: string[]): SyncTasks.Promise<Types.StorageItemsResult>;
+    abstract multiSet(items: Types.StorageItems): SyncTasks.Promise<void>;
+    abstract multiRemove(keys: string[]): SyncTasks.Promise<void>;
+
+    // Structured values, stored as JSON. Entries that can't be parsed are
+    // moved aside and reported through itemQuarantinedEvent.
+    abstract getObject<T>(key: string): SyncTasks.Promise<T | undefined>;
+    abstract setObject<T>(key: string, value: T): SyncTasks.Promise<void>;
+    itemQuarantinedEvent = new SubscribableEvent<(key: string) => void>();
+
+    // Schema versioning
+    abstract registerSchema(version: number, migrations: Types.StorageMigration[]): SyncTasks.Promise<void>;
+    abstract getSchemaVersion(): SyncTasks.Promise<number>;
+
+    // Writes performed within the function are committed or rolled back together
+    abstract transaction(func: (transaction: Types.StorageTransaction) => void): SyncTasks.Promise<void>;
+
+    // Namespaces
+    abstract createNamespace(prefix: string): StorageNamespace;
+
+    // Backend selection (web only); should be called before the first access
+    abstract useBackend(backend: Types.StorageBackend): void;
+
+    // Usage and quota, in bytes
+    abstract getUsage(): SyncTasks.Promise<number>;
+    abstract getQuota(): SyncTasks.Promise<number | undefined>;
+}
+
+export abstract class StorageNamespace {
+    abstract getPrefix(): string;
+    abstract getItem(key: string): SyncTasks.Promise<string | undefined>;
+    abstract setItem(key: string, value: string, options?: Types.StorageItemOptions): SyncTasks.Promise<void>;
+    abstract removeItem(key: string): SyncTasks.Promise<void>;
+    abstract getAllKeys(): SyncTasks.Promise<string[]>;
+    abstract multiGet(keys: string[]): SyncTasks.Promise<Types.StorageItemsResult>;
+    abstract multiSet(items: Types.StorageItems, options?: Types.StorageItemOptions): SyncTasks.Promise<void>;
+    abstract multiRemove(keys: string[]): SyncTasks.Promise<void>;
+
+    // Removes only the keys that belong to this namespace
+    abstract clear(): SyncTasks.Promise<void>;
 }
 
 export abstract class Location {
@@ -196,6 +251,18 @@ export abstract class Network {
     abstract isConnected(): SyncTasks.Promise<boolean>;
     abstract getType(): SyncTasks.Promise<Types.DeviceNetworkType>;
     connectivityChangedEvent = new SubscribableEvent<(isConnected: boolean) => void>();
+    connectionTypeChangedEvent = new SubscribableEvent<(type: Types.DeviceNetworkType) => void>();
+
+    // Connection quality
+    abstract getEffectiveBandwidth(): SyncTasks.Promise<number | undefined>;
+    abstract isMetered(): SyncTasks.Promise<boolean>;
+    abstract readonly saveDataEnabled: boolean;
+
+    // Reachability monitoring (opt-in)
+    abstract startReachabilityMonitor(config: Types.ReachabilityConfig): void;
+    abstract stopReachabilityMonitor(): void;
+    abstract getReachability(): Types.NetworkReachability | undefined;
+    reachabilityChangedEvent = new SubscribableEvent<(reachability: Types.NetworkReachability) => void>();
 }
 
 export abstract class Platform {
@@ -231,18 +298,38 @@ export abstract class StatusBar {
 export abstract class Styles {
     abstract combine<T>(ruleSet1: Types.StyleRuleSetRecursive<T> | undefined, ruleSet2?: Types.StyleRuleSetRecursive<T>)
         : Types.StyleRuleSetOrArray<T> | undefined;
-    abstract createViewStyle(ruleSet: Types.ViewStyle, cacheStyle?: boolean): Types.ViewStyleRuleSet;
+    abstract createViewStyle(ruleSet: Types.ViewStyle | Types.ThemedRuleSet<Types.ViewStyle>,
+        cacheStyle?: boolean): Types.ViewStyleRuleSet;
     abstract createAnimatedViewStyle(ruleSet: Types.AnimatedViewStyle): Types.AnimatedViewStyleRuleSet;
-    abstract createScrollViewStyle(ruleSet: Types.ScrollViewStyle, cacheStyle?: boolean): Types.ScrollViewStyleRuleSet;
-    abstract createButtonStyle(ruleSet: Types.ButtonStyle, cacheStyle?: boolean): Types.ButtonStyleRuleSet;
-    abstract createTextStyle(ruleSet: Types.TextStyle, cacheStyle?: boolean): Types.TextStyleRuleSet;
+    abstract createScrollViewStyle(ruleSet: Types.ScrollViewStyle | Types.ThemedRuleSet<Types.ScrollViewStyle>,
+        cacheStyle?: boolean): Types.ScrollViewStyleRuleSet;
+    abstract createButtonStyle(ruleSet: Types.ButtonStyle | Types.ThemedRuleSet<Types.ButtonStyle>,
+        cacheStyle?: boolean): Types.ButtonStyleRuleSet;
+    abstract createTextStyle(ruleSet: Types.TextStyle | Types.ThemedRuleSet<Types.TextStyle>,
+        cacheStyle?: boolean): Types.TextStyleRuleSet;
     abstract createAnimatedTextStyle(ruleSet: Types.AnimatedTextStyle): Types.AnimatedTextStyleRuleSet;
-    abstract createTextInputStyle(ruleSet: Types.TextInputStyle, cacheStyle?: boolean): Types.TextInputStyleRuleSet;
+    abstract createTextInputStyle(ruleSet: Types.TextInputStyle | Types.ThemedRuleSet<Types.TextInputStyle>,
+        cacheStyle?: boolean): Types.TextInputStyleRuleSet;
     abstract createAnimatedTextInputStyle(ruleSet: Types.AnimatedTextInputStyle): Types.AnimatedTextInputStyleRuleSet;
-    abstract createImageStyle(ruleSet: Types.ImageStyle, cacheStyle?: boolean): Types.ImageStyleRuleSet;
+    abstract createImageStyle(ruleSet: Types.ImageStyle | Types.ThemedRuleSet<Types.ImageStyle>,
+        cacheStyle?: boolean): Types.ImageStyleRuleSet;
     abstract createAnimatedImageStyle(ruleSet: Types.AnimatedImageStyle): Types.AnimatedImageStyleRuleSet;
-    abstract createLinkStyle(ruleSet: Types.LinkStyleRuleSet, cacheStyle?: boolean): Types.LinkStyleRuleSet;
-    abstract createPickerStyle(ruleSet: Types.PickerStyle, cacheStyle?: boolean): Types.PickerStyleRuleSet;
+    abstract createLinkStyle(ruleSet: Types.LinkStyleRuleSet | Types.ThemedRuleSet<Types.LinkStyle>,
+        cacheStyle?: boolean): Types.LinkStyleRuleSet;
+    abstract createPickerStyle(ruleSet: Types.PickerStyle | Types.ThemedRuleSet<Types.PickerStyle>,
+        cacheStyle?: boolean): Types.PickerStyleRuleSet;
+
+    // Responsive Styles
+    abstract createResponsiveViewStyle(ruleSet: Types.ResponsiveRuleSet<Types.ViewStyle | Types.ThemedRuleSet<Types.ViewStyle>>,
+        cacheStyle?: boolean): Types.ResponsiveViewStyleRuleSet;
+    abstract resolveResponsiveStyle<T>(ruleSet: Types.ResponsiveStyleRuleSet<T>, rootViewId?: string): Types.StyleRuleSetOrArray<T>;
+
+    // Themes
+    abstract registerTheme(themeName: string, theme: Types.Theme): void;
+    abstract setTheme(themeName: string | undefined): void;
+    abstract getThemeName(): string | undefined;
+    abstract getTheme(): Types.Theme;
+    themeChangedEvent = new SubscribableEvent<(themeName: string | undefined) => void>();
 
     // This method isn't part of the documented ReactXP interface and shouldn't be used by
     // app-level code, but it is needed for some ReactXP extensions (e.g. reactxp-imagesvg),
@@ -296,11 +383,26 @@ export interface Animated {
     View: typeof AnimatedView;
     Easing: Types.Animated.Easing;
     timing: Types.Animated.TimingFunction;
+    spring: Types.Animated.SpringFunction;
+    decay: Types.Animated.DecayFunction;
+    keyframes: Types.Animated.KeyframesFunction;
     parallel: Types.Animated.ParallelFunction;
     sequence: Types.Animated.SequenceFunction;
+    stagger: Types.Animated.StaggerFunction;
+    delay: Types.Animated.DelayFunction;
+    loop: Types.Animated.LoopFunction;
+    add: Types.Animated.ArithmeticFunction;
+    subtract: Types.Animated.ArithmeticFunction;
+    multiply: Types.Animated.ArithmeticFunction;
+    divide: Types.Animated.ArithmeticFunction;
+    modulo: Types.Animated.ModuloFunction;
+    diffClamp: Types.Animated.DiffClampFunction;
 
     Value: typeof Types.AnimatedValue;
     createValue: (initialValue: number) => Types.AnimatedValue;
+
+    // Engine selection (web only); affects animations started afterwards
+    useEngine: (engine: Types.Animated.Engine) => void;
     interpolate: (value: Types.AnimatedValue, inputRange: number[], outputRange: string[]) => Types.InterpolatedValue;
 }
 
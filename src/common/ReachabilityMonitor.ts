@@ -0,0 +1,165 @@
+/**
+ * ReachabilityMonitor.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Determines whether the network is actually usable by periodically
+ * requesting a probe URL. The platform connectivity APIs report only
+ * whether a network interface is up, which is also the case behind
+ * captive portals or with a dead access point.
+ */
+
+import { SubscriptionToken } from 'subscribableevent';
+import * as SyncTasks from 'synctasks';
+
+import * as RX from './Interfaces';
+import Timers from './utils/Timers';
+
+const _defaultProbeInterval = 60 * 1000;
+const _defaultProbeTimeout = 10 * 1000;
+const _defaultInitialRetryInterval = 2 * 1000;
+const _defaultMaxRetryInterval = 5 * 60 * 1000;
+
+export class ReachabilityMonitor {
+    private _network: RX.Network;
+    private _config: RX.Types.ReachabilityConfig | undefined;
+    private _reachability: RX.Types.NetworkReachability | undefined;
+    private _connectivitySubscription: SubscriptionToken | undefined;
+    private _probeTimer: number | undefined;
+    private _retryInterval = 0;
+
+    // Incremented for every probe so results of outdated probes can be ignored.
+    private _probeCount = 0;
+
+    constructor(network: RX.Network) {
+        this._network = network;
+    }
+
+    start(config: RX.Types.ReachabilityConfig) {
+        this.stop();
+
+        this._config = config;
+        this._connectivitySubscription = this._network.connectivityChangedEvent.subscribe(() => {
+            // Probe right away rather than waiting for the next scheduled probe.
+            this._retryInterval = 0;
+            this._probe();
+        });
+
+        this._probe();
+    }
+
+    stop() {
+        this._cancelScheduledProbe();
+
+        if (this._connectivitySubscription) {
+            this._connectivitySubscription.unsubscribe();
+            this._connectivitySubscription = undefined;
+        }
+
+        this._config = undefined;
+        this._reachability = undefined;
+        this._retryInterval = 0;
+        this._probeCount++;
+    }
+
+    getReachability(): RX.Types.NetworkReachability | undefined {
+        return this._reachability;
+    }
+
+    private _probe() {
+        this._cancelScheduledProbe();
+
+        const config = this._config;
+        if (!config) {
+            return;
+        }
+
+        const probeCount = ++this._probeCount;
+
+        this._network.isConnected().then<RX.Types.NetworkReachability>(isConnected => {
+            if (!isConnected) {
+                return RX.Types.NetworkReachability.Offline;
+            }
+
+            return ReachabilityMonitor._sendProbeRequest(config).then(succeeded => {
+                return succeeded ? RX.Types.NetworkReachability.Connected : RX.Types.NetworkReachability.Limited;
+            });
+        }).then(reachability => {
+            if (probeCount !== this._probeCount) {
+                return;
+            }
+
+            this._setReachability(reachability);
+
+            // While offline, wait for the connectivity to change instead of probing.
+            if (reachability === RX.Types.NetworkReachability.Connected) {
+                this._retryInterval = 0;
+                this._scheduleProbe(config.probeInterval || _defaultProbeInterval);
+            } else if (reachability === RX.Types.NetworkReachability.Limited) {
+                this._retryInterval = this._retryInterval > 0 ?
+                    Math.min(this._retryInterval * 2, config.maxRetryInterval || _defaultMaxRetryInterval) :
+                    config.initialRetryInterval || _defaultInitialRetryInterval;
+                this._scheduleProbe(this._retryInterval);
+            }
+        }, () => {
+            // The connectivity query failed, so try again later.
+            if (probeCount === this._probeCount) {
+                this._scheduleProbe(config.maxRetryInterval || _defaultMaxRetryInterval);
+            }
+        });
+    }
+
+    private _setReachability(reachability: RX.Types.NetworkReachability) {
+        if (reachability !== this._reachability) {
+            this._reachability = reachability;
+            this._network.reachabilityChangedEvent.fire(reachability);
+        }
+    }
+
+    private _scheduleProbe(delay: number) {
+        this._cancelScheduledProbe();
+        this._probeTimer = Timers.setTimeout(() => {
+            this._probeTimer = undefined;
+            this._probe();
+        }, delay);
+    }
+
+    private _cancelScheduledProbe() {
+        if (this._probeTimer !== undefined) {
+            Timers.clearTimeout(this._probeTimer);
+            this._probeTimer = undefined;
+        }
+    }
+
+    private static _sendProbeRequest(config: RX.Types.ReachabilityConfig): SyncTasks.Promise<boolean> {
+        const deferred = SyncTasks.Defer<boolean>();
+
+        // Make sure the request isn't served from a cache.
+        const url = config.probeUrl + (config.probeUrl.indexOf('?') >= 0 ? '&' : '?') + '_rxProbe=' + Date.now();
+
+        const request = new XMLHttpRequest();
+        request.onload = () => {
+            const succeeded = config.expectedStatus !== undefined ?
+                request.status === config.expectedStatus :
+                request.status >= 200 && request.status < 300;
+            deferred.resolve(succeeded);
+        };
+        request.onerror = () => {
+            deferred.resolve(false);
+        };
+        request.ontimeout = () => {
+            deferred.resolve(false);
+        };
+
+        try {
+            request.open('GET', url, true);
+            request.timeout = config.probeTimeout || _defaultProbeTimeout;
+            request.send();
+        } catch (e) {
+            deferred.resolve(false);
+        }
+
+        return deferred.promise();
+    }
+}
@@ -0,0 +1,139 @@
+/**
+ * ResponsiveStyles.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Resolves responsive styles to the base and breakpoint styles that match
+ * the size of the window, and reports when the size of the window changes.
+ */
+
+import SubscribableEvent from 'subscribableevent';
+
+import * as RX from './Interfaces';
+
+class ResponsiveStyle<T> implements RX.Types.ResponsiveStyleRuleSet<T> {
+    constructor(readonly base: RX.Types.StyleRuleSet<T>,
+        readonly breakpoints: RX.Types.ResponsiveStyleBreakpoint<RX.Types.StyleRuleSet<T>>[]) {
+    }
+}
+
+export class ResponsiveStyles {
+    private _userInterface: RX.UserInterface | undefined;
+    private _isHydrating = false;
+
+    windowDimensionsChangedEvent = new SubscribableEvent<() => void>();
+
+    // The platform provides the user interface module that measures the window.
+    setUserInterface(userInterface: RX.UserInterface): void {
+        this._userInterface = userInterface;
+    }
+
+    // The platform reports when the size of any of its windows changes.
+    notifyWindowDimensionsChanged(): void {
+        this.windowDimensionsChangedEvent.fire();
+    }
+
+    // While server-rendered markup is hydrated, styles are resolved the way
+    // they were on the server, where the window can't be measured, so the
+    // rendered markup matches. Once hydration is done, components resolve
+    // their styles again for the window.
+    setHydrating(isHydrating: boolean): void {
+        this._isHydrating = isHydrating;
+
+        if (!isHydrating) {
+            this.notifyWindowDimensionsChanged();
+        }
+    }
+
+    // Creates the base and breakpoint styles of a responsive rule set.
+    createResponsiveStyle<S, T>(ruleSet: RX.Types.ResponsiveRuleSet<S>, createStyle: (ruleSet: S) => RX.Types.StyleRuleSet<T>):
+            RX.Types.ResponsiveStyleRuleSet<T> {
+        return new ResponsiveStyle(createStyle(ruleSet.base), ruleSet.breakpoints.map(breakpoint => ({
+            minWidth: breakpoint.minWidth,
+            maxWidth: breakpoint.maxWidth,
+            minHeight: breakpoint.minHeight,
+            maxHeight: breakpoint.maxHeight,
+            style: createStyle(breakpoint.style)
+        })));
+    }
+
+    // Returns the base style followed by the styles of the breakpoints that
+    // match the window of the root view.
+    resolveResponsiveStyle<T>(style: RX.Types.ResponsiveStyleRuleSet<T>, rootViewId?: string): RX.Types.StyleRuleSetOrArray<T> {
+        const dimensions = this._measureWindow(rootViewId);
+        const styles = [style.base];
+        style.breakpoints.forEach(breakpoint => {
+            if (ResponsiveStyles._isMatchingBreakpoint(breakpoint, dimensions)) {
+                styles.push(breakpoint.style);
+            }
+        });
+        return styles;
+    }
+
+    // Replaces the responsive styles in a (potentially-nested) array of
+    // styles with the styles they resolve to. Styles that don't contain any
+    // responsive styles are returned as is.
+    resolveStyles(style: RX.Types.StyleRuleSetRecursive<any>, rootViewId?: string): RX.Types.StyleRuleSetRecursive<any> {
+        if (!this.containsResponsiveStyle(style)) {
+            return style;
+        }
+
+        if (style instanceof ResponsiveStyle) {
+            return this.resolveResponsiveStyle(style, rootViewId);
+        }
+
+        return (style as RX.Types.StyleRuleSetRecursiveArray<any>).map(childStyle => this.resolveStyles(childStyle, rootViewId));
+    }
+
+    containsResponsiveStyle(style: RX.Types.StyleRuleSetRecursive<any>): boolean {
+        if (style instanceof ResponsiveStyle) {
+            return true;
+        }
+
+        return Array.isArray(style) && style.some(childStyle => this.containsResponsiveStyle(childStyle));
+    }
+
+    // Returns a key that identifies which breakpoints of the responsive styles
+    // match, so components can tell whether their resolved styles changed
+    // when the size of the window changes.
+    getMatchingBreakpointsKey(style: RX.Types.StyleRuleSetRecursive<any>, rootViewId?: string): string {
+        if (!this.containsResponsiveStyle(style)) {
+            return '';
+        }
+
+        const dimensions = this._measureWindow(rootViewId);
+        let key = '';
+        const appendKey = (childStyle: RX.Types.StyleRuleSetRecursive<any>) => {
+            if (childStyle instanceof ResponsiveStyle) {
+                childStyle.breakpoints.forEach(breakpoint => {
+                    key += ResponsiveStyles._isMatchingBreakpoint(breakpoint, dimensions) ? '1' : '0';
+                });
+            } else if (Array.isArray(childStyle)) {
+                childStyle.forEach(appendKey);
+            }
+        };
+        appendKey(style);
+
+        return key;
+    }
+
+    private _measureWindow(rootViewId?: string): RX.Types.Dimensions {
+        if (this._isHydrating || !this._userInterface) {
+            return { width: 0, height: 0 };
+        }
+
+        return this._userInterface.measureWindow(rootViewId);
+    }
+
+    // The minimums are inclusive and the maximums are exclusive, so adjacent
+    // breakpoints (e.g. { maxWidth: 600 } and { minWidth: 600 }) don't overlap.
+    private static _isMatchingBreakpoint(breakpoint: RX.Types.ResponsiveStyleBreakpoint<any>, dimensions: RX.Types.Dimensions) {
+        return (breakpoint.minWidth === undefined || dimensions.width >= breakpoint.minWidth) &&
+            (breakpoint.maxWidth === undefined || dimensions.width < breakpoint.maxWidth) &&
+            (breakpoint.minHeight === undefined || dimensions.height >= breakpoint.minHeight) &&
+            (breakpoint.maxHeight === undefined || dimensions.height < breakpoint.maxHeight);
+    }
+}
+
+export default new ResponsiveStyles();
@@ -0,0 +1,144 @@
+/**
+ * StorageNamespace.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * A scoped view of the cross-platform storage abstraction. All keys are
+ * stored under a common prefix, and items can optionally expire.
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from './Interfaces';
+
+const _prefixSeparator = ':';
+
+// Envelope that is persisted for every item in a namespace.
+interface StoredItem {
+    // Value supplied by the caller
+    v: string;
+
+    // Expiration time in milliseconds since the epoch, if any
+    e?: number;
+}
+
+export class StorageNamespace extends RX.StorageNamespace {
+    private _storage: RX.Storage;
+    private _prefix: string;
+    private _keyPrefix: string;
+
+    constructor(storage: RX.Storage, prefix: string) {
+        super();
+
+        // Otherwise the keys of namespace "a:b" would also belong to namespace "a".
+        if (prefix.indexOf(_prefixSeparator) >= 0) {
+            throw new Error('Storage namespace prefix must not contain "' + _prefixSeparator + '"');
+        }
+
+        this._storage = storage;
+        this._prefix = prefix;
+        this._keyPrefix = prefix + _prefixSeparator;
+    }
+
+    getPrefix(): string {
+        return this._prefix;
+    }
+
+    getItem(key: string): SyncTasks.Promise<string | undefined> {
+        return this.multiGet([key]).then(items => items[key]);
+    }
+
+    setItem(key: string, value: string, options?: RX.Types.StorageItemOptions): SyncTasks.Promise<void> {
+        return this.multiSet({ [key]: value }, options);
+    }
+
+    removeItem(key: string): SyncTasks.Promise<void> {
+        return this.multiRemove([key]);
+    }
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        return this._getStorageKeys().then(storageKeys => {
+            const keys = storageKeys.map(storageKey => storageKey.substr(this._keyPrefix.length));
+
+            // Read the items so expired ones are filtered out (and purged).
+            return this.multiGet(keys).then(items => keys.filter(key => items[key] !== undefined));
+        });
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        return this._storage.multiGet(keys.map(key => this._toStorageKey(key))).then(storedItems => {
+            const now = Date.now();
+            const result: RX.Types.StorageItemsResult = {};
+            const expiredKeys: string[] = [];
+
+            keys.forEach(key => {
+                const storageKey = this._toStorageKey(key);
+                const item = this._parseItem(storedItems[storageKey]);
+
+                if (item && item.e !== undefined && item.e <= now) {
+                    expiredKeys.push(storageKey);
+                    result[key] = undefined;
+                } else {
+                    result[key] = item ? item.v : undefined;
+                }
+            });
+
+            if (expiredKeys.length > 0) {
+                return this._storage.multiRemove(expiredKeys).then(() => result);
+            }
+
+            return result;
+        });
+    }
+
+    multiSet(items: RX.Types.StorageItems, options?: RX.Types.StorageItemOptions): SyncTasks.Promise<void> {
+        const expiration = options && options.ttl !== undefined ? Date.now() + options.ttl : undefined;
+        const storedItems: RX.Types.StorageItems = {};
+
+        Object.keys(items).forEach(key => {
+            const item: StoredItem = { v: items[key] };
+            if (expiration !== undefined) {
+                item.e = expiration;
+            }
+            storedItems[this._toStorageKey(key)] = JSON.stringify(item);
+        });
+
+        return this._storage.multiSet(storedItems);
+    }
+
+    multiRemove(keys: string[]): SyncTasks.Promise<void> {
+        return this._storage.multiRemove(keys.map(key => this._toStorageKey(key)));
+    }
+
+    clear(): SyncTasks.Promise<void> {
+        return this._getStorageKeys().then(storageKeys => this._storage.multiRemove(storageKeys));
+    }
+
+    private _toStorageKey(key: string): string {
+        return this._keyPrefix + key;
+    }
+
+    private _getStorageKeys(): SyncTasks.Promise<string[]> {
+        return this._storage.getAllKeys().then(allKeys => {
+            return allKeys.filter(storageKey => storageKey.indexOf(this._keyPrefix) === 0);
+        });
+    }
+
+    private _parseItem(rawValue: string | undefined): StoredItem | undefined {
+        if (rawValue === undefined) {
+            return undefined;
+        }
+
+        try {
+            const item = JSON.parse(rawValue);
+            if (item && typeof item.v === 'string') {
+                return item;
+            }
+        } catch (e) {
+            // Fall through and treat the item as missing.
+        }
+
+        return undefined;
+    }
+}
@@ -0,0 +1,128 @@
+/**
+ * StructuredStorage.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Stores JSON-serializable values on top of the cross-platform storage
+ * abstraction and runs schema migrations over the stored data.
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from './Interfaces';
+
+const _schemaVersionKey = 'reactxp.schemaVersion';
+const _quarantinePrefix = 'reactxp.quarantine:';
+
+export class StructuredStorage {
+    private _storage: RX.Storage;
+    private _registeredVersion: number | undefined;
+    private _migrationPromise: SyncTasks.Promise<void> | undefined;
+
+    constructor(storage: RX.Storage) {
+        this._storage = storage;
+    }
+
+    getObject<T>(key: string): SyncTasks.Promise<T | undefined> {
+        return this._storage.getItem(key).then<T | undefined>(value => {
+            if (value === undefined) {
+                return undefined;
+            }
+
+            let parsedValue: T;
+            try {
+                parsedValue = JSON.parse(value);
+            } catch (e) {
+                return this._quarantineItem(key, value).then(() => undefined);
+            }
+
+            return parsedValue;
+        });
+    }
+
+    setObject<T>(key: string, value: T): SyncTasks.Promise<void> {
+        let serializedValue: string | undefined;
+        try {
+            serializedValue = JSON.stringify(value);
+        } catch (e) {
+            // Values with cycles (among others) can't be serialized.
+            return SyncTasks.Rejected(e);
+        }
+
+        // Undefined (and other values that have no JSON representation, like
+        // functions) can't be read back, so the item is removed instead. This
+        // matches getObject, which returns undefined for missing items.
+        if (serializedValue === undefined) {
+            return this._storage.removeItem(key);
+        }
+
+        return this._storage.setItem(key, serializedValue);
+    }
+
+    getSchemaVersion(): SyncTasks.Promise<number> {
+        return this._storage.getItem(_schemaVersionKey).then(value => {
+            const version = value !== undefined ? parseInt(value, 10) : 0;
+            return isNaN(version) ? 0 : version;
+        });
+    }
+
+    // Runs the migrations that are newer than the stored schema version in
+    // ascending order, recording the version after each one so an interrupted
+    // upgrade resumes where it left off. Only the first registration is honored.
+    registerSchema(version: number, migrations: RX.Types.StorageMigration[]): SyncTasks.Promise<void> {
+        if (this._migrationPromise) {
+            if (version !== this._registeredVersion) {
+                return SyncTasks.Rejected(new Error('A storage schema with version ' + this._registeredVersion +
+                    ' has already been registered'));
+            }
+            return this._migrationPromise;
+        }
+
+        this._registeredVersion = version;
+        this._migrationPromise = this.getSchemaVersion().then(storedVersion => {
+            const pendingMigrations = migrations
+                .filter(migration => migration.toVersion > storedVersion && migration.toVersion <= version)
+                .sort((a, b) => a.toVersion - b.toVersion);
+
+            let promise = SyncTasks.Resolved<void>();
+            pendingMigrations.forEach(migration => {
+                promise = promise
+                    .then(() => migration.migrate(this._storage))
+                    .then(() => this._setSchemaVersion(migration.toVersion));
+            });
+
+            return promise.then(() => {
+                if (storedVersion < version) {
+                    return this._setSchemaVersion(version);
+                }
+                return undefined;
+            });
+        });
+
+        // Allow the app to retry if one of the migrations failed.
+        this._migrationPromise.catch(() => {
+            this._migrationPromise = undefined;
+            this._registeredVersion = undefined;
+        });
+
+        return this._migrationPromise;
+    }
+
+    private _setSchemaVersion(version: number): SyncTasks.Promise<void> {
+        return this._storage.setItem(_schemaVersionKey, version.toString());
+    }
+
+    // Moves the corrupted value out of the way so later reads don't keep
+    // failing, but keeps it around so it can be inspected or recovered.
+    private _quarantineItem(key: string, value: string): SyncTasks.Promise<void> {
+        console.warn('Storage: quarantining item with corrupted JSON value: ' + key);
+
+        return this._storage.transaction(transaction => {
+            transaction.setItem(_quarantinePrefix + key, value);
+            transaction.removeItem(key);
+        }).always(() => {
+            this._storage.itemQuarantinedEvent.fire(key);
+        });
+    }
+}
@@ -0,0 +1,397 @@
+/**
+ * StyleValidator.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Validates the rule sets that are passed to the RX.Styles creation methods
+ * in development mode. Warns about properties that are unknown, have values
+ * of the wrong type, aren't supported by the style kind or aren't supported
+ * on the current platform.
+ */
+
+import AppConfig from './AppConfig';
+import { Types } from './Interfaces';
+
+// The kinds of styles, named after their creation methods (e.g. "View" for
+// createViewStyle).
+export type StyleKind = 'View' | 'AnimatedView' | 'ScrollView' | 'Button' | 'Text' | 'AnimatedText' | 'TextInput' |
+    'AnimatedTextInput' | 'Link' | 'Image' | 'AnimatedImage' | 'Picker';
+
+interface ValueType {
+    isValid: (value: any) => boolean;
+    description: string;
+}
+
+type PropertyTypes = { [property: string]: ValueType };
+
+const _number: ValueType = {
+    isValid: value => typeof value === 'number' && !isNaN(value),
+    description: 'a number'
+};
+
+const _string: ValueType = {
+    isValid: value => typeof value === 'string',
+    description: 'a string'
+};
+
+const _boolean: ValueType = {
+    isValid: value => typeof value === 'boolean',
+    description: 'a boolean'
+};
+
+function _oneOf(...values: string[]): ValueType {
+    return {
+        isValid: value => values.indexOf(value) >= 0,
+        description: 'one of ' + values.map(value => '\'' + value + '\'').join(', ')
+    };
+}
+
+const _shadowOffset: ValueType = {
+    isValid: value => !!value && typeof value === 'object' && _number.isValid(value.width) && _number.isValid(value.height),
+    description: 'an object with a numeric width and height'
+};
+
+const _fontWeight = _oneOf('normal', 'bold', '100', '200', '300', '400', '500', '600', '700', '800', '900');
+const _fontStyle = _oneOf('normal', 'italic');
+
+const _fontInfoTypes: PropertyTypes = {
+    fontFamily: _string,
+    fontStyle: _fontStyle,
+    fontWeight: _fontWeight
+};
+
+const _transformTypes: PropertyTypes = {
+    perspective: _number,
+    rotate: _string,
+    rotateX: _string,
+    rotateY: _string,
+    rotateZ: _string,
+    scale: _number,
+    scaleX: _number,
+    scaleY: _number,
+    translateX: _number,
+    translateY: _number
+};
+
+// Animated and interpolated values are objects. Static values are accepted
+// as well.
+function _animated(valueType: ValueType): ValueType {
+    return {
+        isValid: value => (!!value && typeof value === 'object') || valueType.isValid(value),
+        description: 'an animated value or ' + valueType.description
+    };
+}
+
+function _animatedTypes(propertyTypes: PropertyTypes): PropertyTypes {
+    const result: PropertyTypes = {};
+    Object.keys(propertyTypes).forEach(property => {
+        result[property] = _animated(propertyTypes[property]);
+    });
+    return result;
+}
+
+function _objectOf(propertyTypes: PropertyTypes, description: string): ValueType {
+    return {
+        isValid: value => !!value && typeof value === 'object' && !Array.isArray(value) &&
+            Object.keys(value).every(key => !!propertyTypes[key] && propertyTypes[key].isValid(value[key])),
+        description: description
+    };
+}
+
+function _transform(transformTypes: PropertyTypes): ValueType {
+    const transformType = _objectOf(transformTypes, '');
+    return {
+        isValid: value => Array.isArray(value) && value.every(transform => transformType.isValid(transform)),
+        description: 'an array of transforms (' + Object.keys(transformTypes).join(', ') + ')'
+    };
+}
+
+function _merge(...propertyTypesList: PropertyTypes[]): PropertyTypes {
+    const result: PropertyTypes = {};
+    propertyTypesList.forEach(propertyTypes => {
+        Object.keys(propertyTypes).forEach(property => {
+            result[property] = propertyTypes[property];
+        });
+    });
+    return result;
+}
+
+const _flexboxParentTypes: PropertyTypes = {
+    flexDirection: _oneOf('column', 'row', 'column-reverse', 'row-reverse'),
+    alignSelf: _oneOf('auto', 'flex-start', 'flex-end', 'center', 'stretch'),
+    borderWidth: _number,
+    borderTopWidth: _number,
+    borderRightWidth: _number,
+    borderBottomWidth: _number,
+    borderLeftWidth: _number,
+    height: _number,
+    width: _number,
+    top: _number,
+    right: _number,
+    bottom: _number,
+    left: _number,
+    flexGrow: _number,
+    flexShrink: _number,
+    flexBasis: _number,
+    flex: _number,
+    maxHeight: _number,
+    maxWidth: _number,
+    minHeight: _number,
+    minWidth: _number,
+    margin: _number,
+    marginHorizontal: _number,
+    marginVertical: _number,
+    marginTop: _number,
+    marginRight: _number,
+    marginBottom: _number,
+    marginLeft: _number,
+    padding: _number,
+    paddingHorizontal: _number,
+    paddingVertical: _number,
+    paddingTop: _number,
+    paddingRight: _number,
+    paddingBottom: _number,
+    paddingLeft: _number,
+    position: _oneOf('absolute', 'relative')
+};
+
+const _flexboxChildrenTypes: PropertyTypes = {
+    alignItems: _oneOf('flex-start', 'flex-end', 'center', 'stretch'),
+    alignContent: _oneOf('auto', 'flex-start', 'flex-end', 'center', 'stretch'),
+    flexWrap: _oneOf('wrap', 'nowrap'),
+    justifyContent: _oneOf('flex-start', 'flex-end', 'center', 'space-between', 'space-around')
+};
+
+const _transformStyleTypes: PropertyTypes = {
+    transform: _transform(_transformTypes)
+};
+
+const _viewAndImageCommonTypes = _merge(_flexboxParentTypes, _flexboxChildrenTypes, _transformStyleTypes, {
+    borderColor: _string,
+    borderRadius: _number,
+    borderTopRightRadius: _number,
+    borderBottomRightRadius: _number,
+    borderBottomLeftRadius: _number,
+    borderTopLeftRadius: _number,
+    overflow: _oneOf('visible', 'hidden'),
+    backgroundColor: _string,
+    opacity: _number
+});
+
+const _viewTypes = _merge(_viewAndImageCommonTypes, {
+    borderStyle: _oneOf('solid', 'dotted', 'dashed', 'none'),
+    wordBreak: _oneOf('break-all', 'break-word'),
+    appRegion: _oneOf('drag', 'no-drag'),
+    cursor: _oneOf('pointer', 'default'),
+    shadowOffset: _shadowOffset,
+    shadowOpacity: _number,
+    shadowRadius: _number,
+    shadowColor: _string,
+    elevation: _number,
+    acrylicOpacityUWP: _number,
+    acrylicSourceUWP: _oneOf('host', 'app'),
+    acrylicTintColorUWP: _string
+});
+
+const _textTypes = _merge(_viewTypes, {
+    color: _string,
+    fontFamily: _string,
+    fontSize: _number,
+    fontStyle: _fontStyle,
+    fontWeight: _fontWeight,
+    font: _objectOf(_fontInfoTypes, 'an object with a fontFamily, fontStyle or fontWeight'),
+    letterSpacing: _number,
+    lineHeight: _number,
+    textAlign: _oneOf('auto', 'left', 'right', 'center', 'justify'),
+    textDecorationLine: _oneOf('none', 'underline', 'line-through', 'underline line-through'),
+    textDecorationStyle: _oneOf('solid', 'double', 'dotted', 'dashed'),
+    textDecorationColor: _string,
+    writingDirection: _oneOf('auto', 'ltr', 'rtl'),
+    textAlignVertical: _oneOf('auto', 'top', 'bottom', 'center'),
+    includeFontPadding: _boolean
+});
+
+const _animatedViewAndImageCommonTypes = _merge(_animatedTypes({
+    height: _number,
+    width: _number,
+    top: _number,
+    right: _number,
+    bottom: _number,
+    left: _number,
+    margin: _number,
+    marginHorizontal: _number,
+    marginVertical: _number,
+    marginTop: _number,
+    marginRight: _number,
+    marginBottom: _number,
+    marginLeft: _number,
+    padding: _number,
+    paddingHorizontal: _number,
+    paddingVertical: _number,
+    paddingTop: _number,
+    paddingRight: _number,
+    paddingBottom: _number,
+    paddingLeft: _number,
+    borderWidth: _number,
+    borderColor: _string,
+    borderRadius: _number,
+    backgroundColor: _string,
+    opacity: _number
+}), {
+    transform: _transform(_animatedTypes(_transformTypes))
+});
+
+const _animatedTextTypes = _merge(_animatedViewAndImageCommonTypes, _animatedTypes({
+    color: _string,
+    fontSize: _number,
+    letterSpacing: _number
+}));
+
+const _styleKindTypes: { [kind: string]: PropertyTypes } = {
+    View: _viewTypes,
+    AnimatedView: _merge(_animatedViewAndImageCommonTypes, {
+        shadowOffset: _shadowOffset
+    }, _animatedTypes({
+        shadowOpacity: _number,
+        shadowRadius: _number,
+        shadowColor: _string
+    })),
+    ScrollView: _merge(_flexboxParentTypes, _transformStyleTypes, {
+        overflow: _oneOf('visible', 'hidden'),
+        backgroundColor: _string,
+        opacity: _number
+    }),
+    Button: _viewTypes,
+    Text: _textTypes,
+    AnimatedText: _animatedTextTypes,
+    TextInput: _textTypes,
+    AnimatedTextInput: _animatedTextTypes,
+    Link: _textTypes,
+    Image: _merge(_viewAndImageCommonTypes, {
+        overlayColor: _string
+    }),
+    AnimatedImage: _animatedViewAndImageCommonTypes,
+    Picker: _merge(_viewTypes, {
+        color: _string
+    })
+};
+
+// Properties that only have an effect on some platforms.
+const _platformSpecificProperties: { [property: string]: Types.PlatformType[] } = {
+    wordBreak: ['web'],
+    appRegion: ['web'],
+    cursor: ['web'],
+    elevation: ['android'],
+    textAlignVertical: ['android'],
+    includeFontPadding: ['android'],
+    overlayColor: ['android'],
+    acrylicOpacityUWP: ['windows'],
+    acrylicSourceUWP: ['windows'],
+    acrylicTintColorUWP: ['windows']
+};
+
+// Stack frames of the styles modules are skipped to find the call site of
+// the creation method.
+const _internalStackFrameRegex = /\b(StyleValidator|Styles|Themes|ResponsiveStyles)\b/;
+
+export class StyleValidator {
+    constructor(private _platform: Types.PlatformType) {
+    }
+
+    // Returns the rule set unchanged after validating it. Themed rule sets
+    // are validated each time they're applied to a theme.
+    validateRuleSet<R>(kind: StyleKind, ruleSet: R): R {
+        if (!AppConfig.isDevelopmentMode()) {
+            return ruleSet;
+        }
+
+        // The call site is determined now because themed rule sets are
+        // applied later on.
+        const callSite = StyleValidator._getCallSite();
+
+        if (typeof ruleSet === 'function') {
+            const themedRuleSet = ruleSet as any as Types.ThemedRuleSet<any>;
+            const validatedRuleSet: Types.ThemedRuleSet<any> = theme => {
+                const themedStyle = themedRuleSet(theme);
+                this._validateStyle(kind, themedStyle, callSite);
+                return themedStyle;
+            };
+            return validatedRuleSet as any as R;
+        }
+
+        this._validateStyle(kind, ruleSet, callSite);
+        return ruleSet;
+    }
+
+    private _validateStyle(kind: StyleKind, style: any, callSite: string | undefined) {
+        const methodName = 'RX.Styles.create' + kind + 'Style';
+        const warn = (message: string) => {
+            console.warn(methodName + ': ' + message + (callSite ? ' (at ' + callSite + ')' : ''));
+        };
+
+        if (!style || typeof style !== 'object') {
+            warn('the rule set must be an object');
+            return;
+        }
+
+        const propertyTypes = _styleKindTypes[kind];
+
+        Object.keys(style).forEach(property => {
+            const value = style[property];
+            const valueType = propertyTypes[property];
+
+            if (!valueType) {
+                if (StyleValidator._isKnownProperty(property)) {
+                    warn('style property "' + property + '" is not supported by ' + kind + ' styles');
+                } else {
+                    warn('unknown style property "' + property + '"');
+                }
+                return;
+            }
+
+            // Undefined values are ignored, which is commonly used for
+            // conditional properties.
+            if (value !== undefined && !valueType.isValid(value)) {
+                warn('style property "' + property + '" should be ' + valueType.description +
+                    ' but is ' + StyleValidator._describeValue(value));
+            }
+
+            const platforms = _platformSpecificProperties[property];
+            if (platforms && platforms.indexOf(this._platform) < 0) {
+                warn('style property "' + property + '" is only supported on ' + platforms.join(', ') +
+                    ' and has no effect on ' + this._platform);
+            }
+        });
+    }
+
+    private static _isKnownProperty(property: string): boolean {
+        return Object.keys(_styleKindTypes).some(kind => !!_styleKindTypes[kind][property]);
+    }
+
+    private static _describeValue(value: any): string {
+        try {
+            return JSON.stringify(value);
+        } catch {
+            // The value contains circular references.
+            return String(value);
+        }
+    }
+
+    private static _getCallSite(): string | undefined {
+        // Not all browsers provide a stack.
+        const stack = new Error().stack;
+        if (!stack) {
+            return undefined;
+        }
+
+        const frames = stack.split('\n');
+        for (let i = 1; i < frames.length; i++) {
+            if (!_internalStackFrameRegex.test(frames[i])) {
+                return frames[i].trim().replace(/^at /, '');
+            }
+        }
+
+        return undefined;
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * Themes.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Keeps track of the registered themes and which one is in use, and resolves
+ * the styles that are created from themed rule sets for the current theme.
+ */
+
+import SubscribableEvent from 'subscribableevent';
+
+import AppConfig from './AppConfig';
+import * as RX from './Interfaces';
+
+// The themes with these names are used while no theme is selected, depending
+// on the system settings.
+const _lightThemeName = 'light';
+const _darkThemeName = 'dark';
+const _highContrastThemeName = 'highContrast';
+
+const _emptyTheme: RX.Types.Theme = { colors: {}, sizes: {} };
+
+// Styles aren't updated in place when the theme changes, because components
+// don't apply style objects that they've already applied. Instead, a new style
+// object is created when the style is resolved for a different theme.
+class ThemedStyle {
+    style: any;
+
+    // Version of the theme the style was created for.
+    themeVersion = -1;
+
+    constructor(readonly ruleSet: RX.Types.ThemedRuleSet<any>, readonly adapt: (ruleSet: any) => any) {
+    }
+}
+
+export class Themes {
+    private _themes: { [themeName: string]: RX.Types.Theme } = {};
+    private _selectedThemeName: string | undefined;
+    private _currentThemeName: string | undefined;
+    private _isDarkColorScheme = false;
+    private _accessibility: RX.Accessibility | undefined;
+
+    // Incremented whenever the current theme changes or is registered again.
+    private _themeVersion = 0;
+
+    themeChangedEvent = new SubscribableEvent<(themeName: string | undefined) => void>();
+
+    registerTheme(themeName: string, theme: RX.Types.Theme): void {
+        this._themes[themeName] = theme;
+
+        // The styles need to be recreated if the current theme was replaced.
+        this._updateCurrentTheme(themeName === this._currentThemeName);
+    }
+
+    // Passing undefined selects the theme that matches the system settings.
+    setTheme(themeName: string | undefined): void {
+        if (themeName !== undefined && !this._themes[themeName]) {
+            if (AppConfig.isDevelopmentMode()) {
+                console.error('Theme "' + themeName + '" has not been registered');
+            }
+            return;
+        }
+
+        this._selectedThemeName = themeName;
+        this._updateCurrentTheme(false);
+    }
+
+    getThemeName(): string | undefined {
+        return this._currentThemeName;
+    }
+
+    getTheme(): RX.Types.Theme {
+        return this._currentThemeName !== undefined ? this._themes[this._currentThemeName] : _emptyTheme;
+    }
+
+    // The platform reports whether the system uses a dark color scheme.
+    setDarkColorScheme(isDarkColorScheme: boolean): void {
+        this._isDarkColorScheme = isDarkColorScheme;
+        this._updateCurrentTheme(false);
+    }
+
+    // The platform provides the accessibility module that reports whether
+    // high contrast is enabled.
+    setAccessibility(accessibility: RX.Accessibility): void {
+        if (this._accessibility) {
+            this._accessibility.highContrastChangedEvent.unsubscribe(this._onHighContrastChanged);
+        }
+
+        this._accessibility = accessibility;
+        accessibility.highContrastChangedEvent.subscribe(this._onHighContrastChanged);
+        this._updateCurrentTheme(false);
+    }
+
+    // Creates a style from a themed rule set. Persistent styles are resolved
+    // for the current theme whenever they're rendered (see resolveStyles).
+    // Other styles are created for the current theme right away, since they
+    // are recreated whenever they're rendered.
+    createThemedStyle<T>(ruleSet: RX.Types.ThemedRuleSet<T>, adapt: (ruleSet: T) => any, isPersistent: boolean): any {
+        if (isPersistent) {
+            return new ThemedStyle(ruleSet, adapt);
+        }
+
+        return adapt(ruleSet(this.getTheme()));
+    }
+
+    // Replaces the themed styles in a (potentially-nested) array of styles with
+    // the styles they resolve to for the current theme. Styles that don't
+    // contain any themed styles are returned as is.
+    resolveStyles(style: RX.Types.StyleRuleSetRecursive<any>): RX.Types.StyleRuleSetRecursive<any> {
+        if (!this.containsThemedStyle(style)) {
+            return style;
+        }
+
+        if (style instanceof ThemedStyle) {
+            return this._resolveThemedStyle(style);
+        }
+
+        return (style as RX.Types.StyleRuleSetRecursiveArray<any>).map(childStyle => this.resolveStyles(childStyle));
+    }
+
+    containsThemedStyle(style: RX.Types.StyleRuleSetRecursive<any>): boolean {
+        if (style instanceof ThemedStyle) {
+            return true;
+        }
+
+        return Array.isArray(style) && style.some(childStyle => this.containsThemedStyle(childStyle));
+    }
+
+    private _onHighContrastChanged = () => {
+        this._updateCurrentTheme(false);
+    }
+
+    private _updateCurrentTheme(forceUpdate: boolean) {
+        const themeName = this._selectedThemeName !== undefined ? this._selectedThemeName : this._getSystemThemeName();
+        if (themeName === this._currentThemeName && !forceUpdate) {
+            return;
+        }
+
+        this._currentThemeName = themeName;
+        this._themeVersion++;
+
+        this.themeChangedEvent.fire(themeName);
+    }
+
+    private _resolveThemedStyle(themedStyle: ThemedStyle): any {
+        if (themedStyle.themeVersion !== this._themeVersion) {
+            themedStyle.style = themedStyle.adapt(themedStyle.ruleSet(this.getTheme()));
+            themedStyle.themeVersion = this._themeVersion;
+        }
+
+        return themedStyle.style;
+    }
+
+    private _getSystemThemeName(): string | undefined {
+        if (this._accessibility && this._accessibility.isHighContrastEnabled() && this._themes[_highContrastThemeName]) {
+            return _highContrastThemeName;
+        }
+
+        if (this._isDarkColorScheme && this._themes[_darkThemeName]) {
+            return _darkThemeName;
+        }
+
+        if (this._themes[_lightThemeName]) {
+            return _lightThemeName;
+        }
+
+        // Fall back on the first theme that was registered.
+        const themeNames = Object.keys(this._themes);
+        return themeNames.length > 0 ? themeNames[0] : undefined;
+    }
+}
+
+export default new Themes();
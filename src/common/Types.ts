@@ -8,6 +8,7 @@
 */
 
 import * as React from 'react';
+import * as SyncTasks from 'synctasks';
 
 // Use only for type data
 import * as RX from './Interfaces';
@@ -92,12 +93,18 @@ export type InterpolationConfig = {
     outputRange: number[] | string[];
 };
 
+export type AnimatedValueListener = (state: { value: number }) => void;
+
 export abstract class AnimatedValue {
     constructor(val: number) {
         // No-op
     }
     abstract setValue(value: number): void;
     abstract interpolate(config: InterpolationConfig): InterpolatedValue;
+
+    // Observes changes to the value. Returns an id that can be passed to removeListener.
+    abstract addListener(callback: AnimatedValueListener): string;
+    abstract removeListener(id: string): void;
 }
 
 export declare abstract class InterpolatedValue {
@@ -113,6 +120,22 @@ export interface AnimatedFlexboxStyle {
     right?: AnimatedValue | InterpolatedValue;
     bottom?: AnimatedValue | InterpolatedValue;
     left?: AnimatedValue | InterpolatedValue;
+
+    margin?: AnimatedValue | InterpolatedValue;
+    marginHorizontal?: AnimatedValue | InterpolatedValue;
+    marginVertical?: AnimatedValue | InterpolatedValue;
+    marginTop?: AnimatedValue | InterpolatedValue;
+    marginRight?: AnimatedValue | InterpolatedValue;
+    marginBottom?: AnimatedValue | InterpolatedValue;
+    marginLeft?: AnimatedValue | InterpolatedValue;
+
+    padding?: AnimatedValue | InterpolatedValue;
+    paddingHorizontal?: AnimatedValue | InterpolatedValue;
+    paddingVertical?: AnimatedValue | InterpolatedValue;
+    paddingTop?: AnimatedValue | InterpolatedValue;
+    paddingRight?: AnimatedValue | InterpolatedValue;
+    paddingBottom?: AnimatedValue | InterpolatedValue;
+    paddingLeft?: AnimatedValue | InterpolatedValue;
 }
 
 // ------------------------------------------------------------
@@ -154,6 +177,41 @@ export type StyleRuleSetOrArray<T> = StyleRuleSet<T> | Array<StyleRuleSet<T>>;
 export interface StyleRuleSetRecursiveArray<T> extends Array<StyleRuleSetOrArray<T> | StyleRuleSetRecursiveArray<T>> {}
 export type StyleRuleSetRecursive<T> = StyleRuleSet<T> | StyleRuleSetRecursiveArray<T>;
 
+// Design tokens that themed rule sets refer to.
+export interface Theme {
+    // e.g. { background: '#fff', text: '#000' }
+    colors: { [token: string]: string };
+
+    // e.g. { spacing: 8, bodyFontSize: 14 }
+    sizes: { [token: string]: number };
+}
+
+// A rule set that is created from the tokens of the current theme.
+export type ThemedRuleSet<T> = (theme: Theme) => T;
+
+// The style of a breakpoint is applied on top of the base style while the
+// window is within the bounds of the breakpoint. The minimums are inclusive
+// and the maximums are exclusive.
+export interface ResponsiveStyleBreakpoint<T> {
+    minWidth?: number;
+    maxWidth?: number;
+    minHeight?: number;
+    maxHeight?: number;
+    style: T;
+}
+
+// A rule set whose styles depend on the size of the window.
+export interface ResponsiveRuleSet<T> {
+    base: T;
+    breakpoints: ResponsiveStyleBreakpoint<T>[];
+}
+
+// A responsive style that was created with one of the RX.Styles methods.
+export interface ResponsiveStyleRuleSet<T> {
+    readonly base: StyleRuleSet<T>;
+    readonly breakpoints: ResponsiveStyleBreakpoint<StyleRuleSet<T>>[];
+}
+
 // ------------------------------------------------------------
 // Image and View common Style Rules
 // ------------------------------------------------------------
@@ -172,6 +230,8 @@ export interface ViewAndImageCommonStyle extends FlexboxStyle, TransformStyle {
 }
 
 export interface AnimatedViewAndImageCommonStyle extends AnimatedFlexboxStyle, AnimatedTransformStyle {
+    borderWidth?: AnimatedValue | InterpolatedValue;
+    borderColor?: InterpolatedValue;
     borderRadius?: AnimatedValue | InterpolatedValue;
     backgroundColor?: InterpolatedValue;
     opacity?: AnimatedValue | InterpolatedValue;
@@ -207,8 +267,14 @@ export interface ViewStyle extends ViewAndImageCommonStyle {
 }
 
 export type ViewStyleRuleSet = StyleRuleSet<ViewStyle>;
+export type ResponsiveViewStyleRuleSet = ResponsiveStyleRuleSet<ViewStyle>;
 
 export interface AnimatedViewStyle extends AnimatedViewAndImageCommonStyle {
+    // The shadow offset can't be animated.
+    shadowOffset?: ShadowOffset;
+    shadowOpacity?: AnimatedValue | InterpolatedValue; // iOS only
+    shadowRadius?: AnimatedValue | InterpolatedValue;
+    shadowColor?: InterpolatedValue;
 }
 
 export type AnimatedViewStyleRuleSet = StyleRuleSet<AnimatedViewStyle>;
@@ -279,6 +345,7 @@ export type TextStyleRuleSet = StyleRuleSet<TextStyle>;
 export interface AnimatedTextStyle extends AnimatedViewAndImageCommonStyle {
     color?: InterpolatedValue;
     fontSize?: AnimatedValue | InterpolatedValue;
+    letterSpacing?: AnimatedValue | InterpolatedValue;
 }
 
 export type AnimatedTextStyleRuleSet = StyleRuleSet<AnimatedTextStyle>;
@@ -295,6 +362,7 @@ export type TextInputStyleRuleSet = StyleRuleSet<TextInputStyle>;
 export interface AnimatedTextInputStyle extends AnimatedViewAndImageCommonStyle {
     color?: InterpolatedValue;
     fontSize?: AnimatedValue | InterpolatedValue;
+    letterSpacing?: AnimatedValue | InterpolatedValue;
 }
 
 export type AnimatedTextInputStyleRuleSet = StyleRuleSet<AnimatedTextInputStyle>;
@@ -398,6 +466,16 @@ export enum AccessibilityLiveRegion {
     Assertive
 }
 
+// Determines how animations respond to the system's reduced motion setting.
+export enum ReducedMotionPolicy {
+    // Animations complete immediately while reduced motion is enabled.
+    Skip,
+    // Animations are shortened while reduced motion is enabled.
+    Shorten,
+    // The reduced motion setting is ignored.
+    Ignore
+}
+
 // NOTE: This enum is organized based on priority of these traits (0 is the lowest),
 // which can be assigned to an accessible object. On native, all traits are combined as
 // a list. On desktop, trait with the maximum value is picked. Whenever you are adding
@@ -645,6 +723,10 @@ export interface ViewPropsShared<C = React.Component> extends CommonProps<C>, Co
     animateChildLeave?: boolean;
     animateChildMove?: boolean;
 
+    // Web-only, the layout changes of the view and the views within it are animated by
+    // UserInterface.configureNextLayoutAnimation. Other platforms animate all layout changes.
+    animateLayoutChanges?: boolean;
+
     onAccessibilityTapIOS?: (e: SyntheticEvent) => void;
     onLayout?: (e: ViewOnLayoutEvent) => void;
     onMouseEnter?: (e: MouseEvent) => void;
@@ -689,7 +771,7 @@ export interface ViewPropsShared<C = React.Component> extends CommonProps<C>, Co
 }
 
 export interface ViewProps extends ViewPropsShared<RX.View> {
-    style?: StyleRuleSetRecursive<ViewStyleRuleSet>;
+    style?: StyleRuleSetRecursive<ViewStyleRuleSet | ResponsiveViewStyleRuleSet>;
     useSafeInsets?: boolean;
 }
 
@@ -810,6 +892,20 @@ export interface GestureViewProps extends CommonStyledProps<ViewStyleRuleSet, RX
     // Something else wants to become responder. Should this view release the responder?
     // Setting true allows release
     releaseOnRequest?: boolean;
+
+    // Animated values that track gestures without going through React. While a
+    // pan is in progress, panXAnimatedValue and panYAnimatedValue are set to its
+    // horizontal and vertical translation (in pixels). While a pinch is in progress,
+    // scaleAnimatedValue is set to the ratio of the current to the initial distance
+    // between the touches and rotationAnimatedValue to the change of their angle
+    // (in degrees). The values keep their last values when the gesture ends.
+    // Providing a value enables recognition of the corresponding gesture even if
+    // there's no handler for it. Pinch and rotate are supported only on platforms
+    // that support onPinchZoom and onRotate.
+    panXAnimatedValue?: RX.Types.AnimatedValue;
+    panYAnimatedValue?: RX.Types.AnimatedValue;
+    scaleAnimatedValue?: RX.Types.AnimatedValue;
+    rotationAnimatedValue?: RX.Types.AnimatedValue;
 }
 
 export interface ScrollIndicatorInsets {
@@ -1095,6 +1191,52 @@ export type LocationWatchId = number;
 export type LocationSuccessCallback = (position: Position) => void;
 export type LocationFailureCallback = (error: LocationErrorType) => void;
 
+//
+// Storage
+// ----------------------------------------------------------------------
+export type StorageItems = { [key: string]: string };
+export type StorageItemsResult = { [key: string]: string | undefined };
+
+export interface StorageItemOptions {
+    // Number of milliseconds after which the item expires and is
+    // no longer returned by the namespace that stored it.
+    ttl?: number;
+}
+
+export enum StorageBackend {
+    // localStorage on web, AsyncStorage on native
+    Default = 0,
+    // IndexedDB on web (falls back to Memory if unavailable)
+    IndexedDb = 1,
+    // Non-persistent, in-memory storage
+    Memory = 2
+}
+
+export enum StorageErrorCode {
+    UnexpectedFailure = 0,
+    QuotaExceeded = 1,
+    TransactionFailed = 2
+}
+
+export interface StorageErrorInfo {
+    code: StorageErrorCode;
+    key?: string;
+    description?: string;
+}
+
+export interface StorageMigration {
+    // Schema version that the migration upgrades the stored data to
+    toVersion: number;
+    migrate: (storage: RX.Storage) => SyncTasks.Promise<void> | void;
+}
+
+// Collects the writes performed within Storage.transaction. They are
+// committed together after the transaction function returns.
+export interface StorageTransaction {
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+}
+
 //
 // Animated
 // ----------------------------------------------------------------------
@@ -1104,8 +1246,23 @@ export module Animated {
     export type CompositeAnimation = {
         start: (callback?: EndCallback) => void;
         stop: () => void;
+
+        // Only supported on the web, by keyframe animations and (when the Web
+        // Animations engine is in use) timing animations. Composite animations
+        // pass them on to the animations they contain where possible.
+        pause?: () => void;
+        resume?: () => void;
+        seek?: (time: number) => void; // In milliseconds, including any delay
+        reverse?: () => void;
     };
 
+    export enum Engine {
+        // CSS transitions (web), RN Animated (native)
+        Default = 0,
+        // Web Animations API on web (falls back to Default if unavailable)
+        WebAnimations = 1
+    }
+
     export interface LoopConfig {
         restartFrom: number;
     }
@@ -1123,6 +1280,39 @@ export module Animated {
         loop?: LoopConfig;
     }
 
+    export interface SpringAnimationConfig extends AnimationConfig {
+        toValue: number;
+        stiffness?: number; // Default 100
+        damping?: number; // Default 10
+        mass?: number; // Default 1
+        // Initial velocity in units per second. If the value is already being animated
+        // by a spring or decay animation, its current velocity is carried over instead.
+        velocity?: number;
+        overshootClamping?: boolean; // Default false
+        restDisplacementThreshold?: number; // Default 0.001
+        restSpeedThreshold?: number; // Default 0.001
+        delay?: number;
+    }
+
+    export interface Keyframe {
+        // Position within the animation, from 0 to 1
+        offset: number;
+        value: number;
+
+        // Applies to the segment from this keyframe to the next one. Default linear.
+        easing?: EasingFunction;
+    }
+
+    export interface KeyframesAnimationConfig extends AnimationConfig {
+        delay?: number;
+    }
+
+    export interface DecayAnimationConfig extends AnimationConfig {
+        // Initial velocity in units per millisecond (e.g. the velocity of a pan gesture)
+        velocity: number;
+        deceleration?: number; // Default 0.998
+    }
+
     export interface InterpolationConfigType {
         inputRange: number[];
         outputRange: (number | string)[];
@@ -1132,12 +1322,63 @@ export module Animated {
         config: TimingAnimationConfig) => CompositeAnimation;
     export let timing: TimingFunction;
 
+    export type SpringFunction = (value: RX.Types.AnimatedValue, config: SpringAnimationConfig) => CompositeAnimation;
+    export let spring: SpringFunction;
+
+    // Animates the value through the keyframes over the duration (in milliseconds).
+    // If there's no keyframe at offset 0, the animation starts at the current value.
+    export type KeyframesFunction = (value: RX.Types.AnimatedValue, keyframes: Keyframe[], duration: number,
+        config?: KeyframesAnimationConfig) => CompositeAnimation;
+    export let keyframes: KeyframesFunction;
+
+    export type DecayFunction = (value: RX.Types.AnimatedValue, config: DecayAnimationConfig) => CompositeAnimation;
+    export let decay: DecayFunction;
+
     export type SequenceFunction = (animations: Array<CompositeAnimation>) => CompositeAnimation;
     export let sequence: SequenceFunction;
 
     export type ParallelFunction = (animations: Array<CompositeAnimation>) => CompositeAnimation;
     export let parallel: ParallelFunction;
 
+    // Operands of the arithmetic functions. Numbers are treated as constant values.
+    export type ArithmeticOperand = RX.Types.AnimatedValue | RX.Types.InterpolatedValue | number;
+
+    export type ArithmeticFunction = (a: ArithmeticOperand, b: ArithmeticOperand) => RX.Types.InterpolatedValue;
+    export let add: ArithmeticFunction;
+    export let subtract: ArithmeticFunction;
+    export let multiply: ArithmeticFunction;
+    export let divide: ArithmeticFunction;
+
+    // Returns the non-negative remainder of the value divided by the modulus.
+    export type ModuloFunction = (value: RX.Types.AnimatedValue | RX.Types.InterpolatedValue,
+        modulus: number) => RX.Types.InterpolatedValue;
+    export let modulo: ModuloFunction;
+
+    // Returns a value that follows the changes of the input value but stays within
+    // the given bounds, so it starts changing as soon as the input value changes
+    // direction, no matter how far beyond the bounds the input value is.
+    export type DiffClampFunction = (value: RX.Types.AnimatedValue | RX.Types.InterpolatedValue,
+        min: number, max: number) => RX.Types.InterpolatedValue;
+    export let diffClamp: DiffClampFunction;
+
+    // Starts the animations in parallel, each one delayed by the given time
+    // (in milliseconds) relative to the one before it.
+    export type StaggerFunction = (time: number, animations: Array<CompositeAnimation>) => CompositeAnimation;
+    export let stagger: StaggerFunction;
+
+    // Does nothing for the given time (in milliseconds). Useful within sequences.
+    export type DelayFunction = (time: number) => CompositeAnimation;
+    export let delay: DelayFunction;
+
+    export interface LoopAnimationConfig {
+        iterations?: number; // Default -1 (loop until stopped)
+    }
+
+    // Repeats the animation, resetting its values to where they were when it
+    // was first started before each iteration.
+    export type LoopFunction = (animation: CompositeAnimation, config?: LoopAnimationConfig) => CompositeAnimation;
+    export let loop: LoopFunction;
+
     export type EasingFunction = {
         cssName: string;
         function: (input: number) => number;
@@ -1313,6 +1554,28 @@ export interface LayoutInfo {
     height: number;
 }
 
+export enum LayoutAnimationType {
+    EaseInEaseOut,
+    EaseIn,
+    EaseOut,
+    Linear,
+    Spring
+}
+
+export interface LayoutAnimationConfig {
+    // In milliseconds; default = 300
+    duration?: number;
+
+    // Default = EaseInEaseOut
+    type?: LayoutAnimationType;
+
+    // Fades in the views that are added by the update; default = true
+    animateEnter?: boolean;
+
+    // Called once the animation has completed
+    onEnd?: () => void;
+}
+
 //
 // Platform
 // ----------------------------------------------------------------------
@@ -1327,5 +1590,34 @@ export enum DeviceNetworkType {
     Wifi,
     Mobile2G,
     Mobile3G,
-    Mobile4G
+    Mobile4G,
+    Ethernet
+}
+
+export enum NetworkReachability {
+    // The device has no network connection
+    Offline,
+    // The device reports a connection, but the probe URL can't be reached
+    // (e.g. a captive portal or a dead access point)
+    Limited,
+    // The probe URL was reached successfully
+    Connected
+}
+
+export interface ReachabilityConfig {
+    // URL that is requested to verify connectivity. Ideally it returns an
+    // empty response and allows cross-origin requests.
+    probeUrl: string;
+    // If specified, only this HTTP status counts as success; otherwise any
+    // 2xx status does. Use 204 to detect captive portals that answer with 200.
+    expectedStatus?: number;
+    // Milliseconds between probes while connected (default 60 seconds)
+    probeInterval?: number;
+    // Milliseconds before a probe is considered failed (default 10 seconds)
+    probeTimeout?: number;
+    // Milliseconds before the first retry after a failed probe; the delay
+    // doubles after each further failure (default 2 seconds)
+    initialRetryInterval?: number;
+    // Upper bound on the retry delay (default 5 minutes)
+    maxRetryInterval?: number;
 }
@@ -0,0 +1,63 @@
+/**
+ * StorageUtils.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Helpers shared by the platform-specific storage implementations.
+ */
+
+import * as Types from '../Types';
+
+// Records the writes made within a storage transaction. If the same key is
+// written more than once, only the last write is retained.
+export class StorageTransactionRecorder implements Types.StorageTransaction {
+    private _pendingValues: Types.StorageItemsResult = {};
+
+    setItem(key: string, value: string): void {
+        this._pendingValues[key] = value;
+    }
+
+    removeItem(key: string): void {
+        this._pendingValues[key] = undefined;
+    }
+
+    getKeys(): string[] {
+        return Object.keys(this._pendingValues);
+    }
+
+    getItemsToSet(): Types.StorageItems {
+        const items: Types.StorageItems = {};
+        this.getKeys().forEach(key => {
+            const value = this._pendingValues[key];
+            if (value !== undefined) {
+                items[key] = value;
+            }
+        });
+        return items;
+    }
+
+    getKeysToRemove(): string[] {
+        return this.getKeys().filter(key => this._pendingValues[key] === undefined);
+    }
+}
+
+// Returns the approximate number of bytes consumed by the items. Keys and
+// values are counted as UTF-16 strings, which is how browsers account for them.
+export function getStoredSize(items: Types.StorageItemsResult): number {
+    let size = 0;
+    Object.keys(items).forEach(key => {
+        const value = items[key];
+        if (value !== undefined) {
+            size += (key.length + value.length) * 2;
+        }
+    });
+    return size;
+}
+
+export function createTransactionError(error: any): Types.StorageErrorInfo {
+    return {
+        code: Types.StorageErrorCode.TransactionFailed,
+        description: error && error.message ? error.message : String(error)
+    };
+}
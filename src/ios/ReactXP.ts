@@ -29,11 +29,13 @@ import NetworkImpl from '../native-common/Network';
 import PickerImpl from '../native-common/Picker';
 import PlatformImpl from '../native-common/Platform';
 import PopupImpl from '../native-common/Popup';
+import ResponsiveStyles from '../common/ResponsiveStyles';
 import ScrollViewImpl from '../native-common/ScrollView';
 import StorageImpl from '../native-common/Storage';
 import StylesImpl from '../native-common/Styles';
 import TextImpl from '../native-common/Text';
 import TextInputImpl from '../native-common/TextInput';
+import Themes from '../common/Themes';
 import RXTypes = require('../common/Types');
 import UserInterfaceImpl from '../native-common/UserInterface';
 import UserPresenceImpl from '../native-common/UserPresence';
@@ -46,6 +48,8 @@ import LinkingImpl from './Linking';
 import StatusBarImpl from './StatusBar';
 
 AccessibilityUtil.setAccessibilityPlatformUtil(AccessibilityPlatformUtil);
+Themes.setAccessibility(AccessibilityImpl);
+ResponsiveStyles.setUserInterface(UserInterfaceImpl);
 
 // -- STRANGE THINGS GOING ON HERE --
 // See web/ReactXP.tsx for more details.
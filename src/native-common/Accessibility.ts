@@ -21,6 +21,7 @@ export interface MacComponentAccessibilityProps {
 
 export class Accessibility extends CommonAccessibility {
     protected _isScreenReaderEnabled = false;
+    protected _isReducedMotionEnabled = false;
 
     constructor() {
         super();
@@ -45,6 +46,36 @@ export class Accessibility extends CommonAccessibility {
                     console.error('Accessibility: RN.AccessibilityInfo.fetch failed');
                 }
             });
+
+            // Work around the fact that the public react-native type definition doesn't
+            // include the reduced motion APIs, which older versions of RN don't support.
+            const accessibilityInfo = RN.AccessibilityInfo as RN.ExtendedAccessibilityInfoStatic;
+            if (accessibilityInfo.isReduceMotionEnabled) {
+                let initialReducedMotionChanged = false;
+
+                RN.AccessibilityInfo.addEventListener('reduceMotionChanged' as RN.AccessibilityEventName,
+                        (isEnabled: boolean) => {
+                    initialReducedMotionChanged = true;
+                    this._updateReducedMotionStatus(isEnabled);
+                });
+
+                accessibilityInfo.isReduceMotionEnabled().then(isEnabled => {
+                    if (!initialReducedMotionChanged) {
+                        this._updateReducedMotionStatus(isEnabled);
+                    }
+                }).catch(err => {
+                    if (AppConfig.isDevelopmentMode()) {
+                        console.error('Accessibility: RN.AccessibilityInfo.isReduceMotionEnabled failed');
+                    }
+                });
+            }
+        }
+    }
+
+    protected _updateReducedMotionStatus(isEnabled: boolean): void {
+        if (this._isReducedMotionEnabled !== isEnabled) {
+            this._isReducedMotionEnabled = isEnabled;
+            this.reducedMotionChangedEvent.fire(isEnabled);
         }
     }
 
@@ -58,6 +89,10 @@ export class Accessibility extends CommonAccessibility {
     isScreenReaderEnabled(): boolean {
         return this._isScreenReaderEnabled;
     }
+
+    isReducedMotionEnabled(): boolean {
+        return this._isReducedMotionEnabled;
+    }
 }
 
 export default new Accessibility();
@@ -10,9 +10,13 @@
 import * as React from 'react';
 import * as RN from 'react-native';
 
+import { getKeyframeSegments } from '../common/AnimatedKeyframes';
+import { formatColor, parseColor } from '../common/Colors';
 import Easing from '../common/Easing';
 import * as RX from '../common/Interfaces';
+import Themes from '../common/Themes';
 
+import Accessibility from './Accessibility';
 import RXImage from './Image';
 import RXText from './Text';
 import RXTextInput from './TextInput';
@@ -71,7 +75,7 @@ class AnimatedWrapper<P, T, C> extends RX.AnimatedComponent<P, T, C> {
 
 class AnimatedImage extends AnimatedWrapper<RX.Types.AnimatedImageProps, RX.Types.Stateless, RX.AnimatedImage> {
     render() {
-        const additionalProps = { ref: this._onMount, style: this.props.style };
+        const additionalProps = { ref: this._onMount, style: Themes.resolveStyles(this.props.style) };
         return (
             <animatedClasses.Image
                 { ...this.props }
@@ -85,7 +89,7 @@ class AnimatedImage extends AnimatedWrapper<RX.Types.AnimatedImageProps, RX.Type
 
 class AnimatedText extends AnimatedWrapper<RX.Types.AnimatedTextProps, RX.Types.Stateless, RX.AnimatedText>  {
     render() {
-        const additionalProps = { ref: this._onMount, style: this.props.style };
+        const additionalProps = { ref: this._onMount, style: Themes.resolveStyles(this.props.style) };
         return (
             <animatedClasses.Text
                 { ...this.props }
@@ -99,7 +103,7 @@ class AnimatedText extends AnimatedWrapper<RX.Types.AnimatedTextProps, RX.Types.
 
 class AnimatedTextInput extends AnimatedWrapper<RX.Types.AnimatedTextInputProps, RX.Types.Stateless, RX.AnimatedTextInput>   {
     render() {
-        const additionalProps = {ref: this._onMount, style: this.props.style };
+        const additionalProps = {ref: this._onMount, style: Themes.resolveStyles(this.props.style) };
         return (
             <animatedClasses.TextInput
                 { ...this.props }
@@ -121,7 +125,7 @@ class AnimatedView extends AnimatedWrapper<RX.Types.AnimatedViewProps, RX.Types.
     }
 
     render() {
-        const additionalProps = {ref: this._onMount, style: this.props.style };
+        const additionalProps = {ref: this._onMount, style: Themes.resolveStyles(this.props.style) };
         return (
             <animatedClasses.View
                 { ...this.props }
@@ -149,6 +153,32 @@ class FocusRestrictedAnimatedView extends AnimatedView {
     }
 }
 
+// If all output values are colors, converts them to rgba() strings, so they're
+// interpolated the same way as on the web regardless of their format.
+function normalizeOutputColors(config: RN.Animated.InterpolationConfigType): RN.Animated.InterpolationConfigType {
+    const outputColors = (config.outputRange as Array<number | string>).map(value =>
+        typeof value === 'string' ? parseColor(value) : undefined);
+    if (!outputColors.every(color => color !== undefined)) {
+        return config;
+    }
+
+    return { ...config, outputRange: outputColors.map(color => formatColor(color!)) };
+}
+
+class Value extends RN.Animated.Value {
+    interpolate(config: RN.Animated.InterpolationConfigType): RN.Animated.AnimatedInterpolation {
+        return super.interpolate(normalizeOutputColors(config));
+    }
+}
+
+// Looping animations (such as activity indicators) aren't affected by the
+// reduced motion setting.
+function getTimingDuration(config: RX.Types.Animated.TimingAnimationConfig): number {
+    // RN's timing animations default to 500ms.
+    const duration = config.duration !== undefined ? config.duration : 500;
+    return config.loop ? duration : Accessibility.adjustAnimationDuration(duration);
+}
+
 const timing = function(
     value: RX.Types.AnimatedValue,
     config: RX.Types.Animated.TimingAnimationConfig)
@@ -161,7 +191,7 @@ const timing = function(
                 const timingConfig: RN.Animated.TimingAnimationConfig = {
                     toValue: config.toValue,
                     easing: config.easing ? config.easing.function : undefined,
-                    duration: config.duration,
+                    duration: getTimingDuration(config),
                     delay: config.delay,
                     isInteraction: config.isInteraction,
                     useNativeDriver: config.useNativeDriver
@@ -191,6 +221,95 @@ const timing = function(
     };
 };
 
+const spring = function(
+    value: RX.Types.AnimatedValue,
+    config: RX.Types.Animated.SpringAnimationConfig)
+    : RX.Types.Animated.CompositeAnimation {
+
+    // RN falls back to its bounciness/speed model unless the physical
+    // parameters are specified, so always pass all of them.
+    const springConfig: RN.Animated.SpringAnimationConfig = {
+        toValue: config.toValue,
+        stiffness: config.stiffness !== undefined ? config.stiffness : 100,
+        damping: config.damping !== undefined ? config.damping : 10,
+        mass: config.mass !== undefined ? config.mass : 1,
+        velocity: config.velocity,
+        overshootClamping: config.overshootClamping,
+        restDisplacementThreshold: config.restDisplacementThreshold,
+        restSpeedThreshold: config.restSpeedThreshold,
+        delay: config.delay,
+        isInteraction: config.isInteraction,
+        useNativeDriver: config.useNativeDriver
+    };
+
+    return RN.Animated.spring(value as RN.Animated.Value, springConfig);
+};
+
+const keyframes = function(
+    value: RX.Types.AnimatedValue,
+    keyframes: RX.Types.Animated.Keyframe[],
+    duration: number,
+    config?: RX.Types.Animated.KeyframesAnimationConfig)
+    : RX.Types.Animated.CompositeAnimation {
+
+    const segments = getKeyframeSegments(keyframes, Accessibility.adjustAnimationDuration(duration));
+
+    // Each segment is a timing animation. RN's timing animations ease in and
+    // out by default, so linear segments need an explicit easing.
+    const animations = segments.map((segment, index) => RN.Animated.timing(value as RN.Animated.Value, {
+        toValue: segment.toValue,
+        duration: segment.duration,
+        easing: segment.easing ? segment.easing.function : Easing.Linear().function,
+        delay: index === 0 && config ? config.delay : undefined,
+        isInteraction: config ? config.isInteraction : undefined,
+        useNativeDriver: config ? config.useNativeDriver : undefined
+    }));
+
+    return RN.Animated.sequence(animations);
+};
+
+const decay = function(
+    value: RX.Types.AnimatedValue,
+    config: RX.Types.Animated.DecayAnimationConfig)
+    : RX.Types.Animated.CompositeAnimation {
+
+    const decayConfig: RN.Animated.DecayAnimationConfig = {
+        velocity: config.velocity,
+        deceleration: config.deceleration,
+        isInteraction: config.isInteraction,
+        useNativeDriver: config.useNativeDriver
+    };
+
+    return RN.Animated.decay(value as RN.Animated.Value, decayConfig);
+};
+
+// RN accepts numbers as operands too, although its type definitions don't reflect that.
+type RNArithmeticOperand = RN.Animated.Animated;
+
+const add = function(a: RX.Types.Animated.ArithmeticOperand, b: RX.Types.Animated.ArithmeticOperand) {
+    return RN.Animated.add(a as RNArithmeticOperand, b as RNArithmeticOperand) as RX.Types.InterpolatedValue;
+};
+
+const subtract = function(a: RX.Types.Animated.ArithmeticOperand, b: RX.Types.Animated.ArithmeticOperand) {
+    return RN.Animated.subtract(a as RNArithmeticOperand, b as RNArithmeticOperand) as RX.Types.InterpolatedValue;
+};
+
+const multiply = function(a: RX.Types.Animated.ArithmeticOperand, b: RX.Types.Animated.ArithmeticOperand) {
+    return RN.Animated.multiply(a as RNArithmeticOperand, b as RNArithmeticOperand) as RX.Types.InterpolatedValue;
+};
+
+const divide = function(a: RX.Types.Animated.ArithmeticOperand, b: RX.Types.Animated.ArithmeticOperand) {
+    return RN.Animated.divide(a as RNArithmeticOperand, b as RNArithmeticOperand) as RX.Types.InterpolatedValue;
+};
+
+const modulo = function(value: RX.Types.AnimatedValue | RX.Types.InterpolatedValue, modulus: number) {
+    return RN.Animated.modulo(value as RNArithmeticOperand, modulus) as RX.Types.InterpolatedValue;
+};
+
+const diffClamp = function(value: RX.Types.AnimatedValue | RX.Types.InterpolatedValue, min: number, max: number) {
+    return RN.Animated.diffClamp(value as RNArithmeticOperand, min, max) as RX.Types.InterpolatedValue;
+};
+
 export function makeAnimated(nativeAnimatedClasses: AnimatedClasses, useFocusRestrictedView?: boolean): RX.Animated {
     if (nativeAnimatedClasses) {
         animatedClasses = nativeAnimatedClasses;
@@ -213,16 +332,31 @@ export let AnimatedCommon = {
     Easing: Easing as RX.Types.Animated.Easing,
 
     timing: timing,
+    spring: spring,
+    decay: decay,
+    keyframes: keyframes,
     parallel: RN.Animated.parallel,
     sequence: RN.Animated.sequence,
-
-    Value: RN.Animated.Value,
-    createValue: (initialValue: number) => new RN.Animated.Value(initialValue),
+    stagger: RN.Animated.stagger,
+    delay: RN.Animated.delay,
+    loop: RN.Animated.loop,
+    add: add,
+    subtract: subtract,
+    multiply: multiply,
+    divide: divide,
+    modulo: modulo,
+    diffClamp: diffClamp,
+
+    Value: Value,
+    createValue: (initialValue: number) => new Value(initialValue),
+    useEngine: (engine: RX.Types.Animated.Engine) => {
+        // RN Animated is the only engine available on native platforms.
+    },
     interpolate: (animatedValue: RX.Types.AnimatedValue, inputRange: number[], outputRange: string[]) => {
-        return animatedValue.interpolate({
+        return (animatedValue as RN.Animated.Value).interpolate(normalizeOutputColors({
             inputRange: inputRange,
             outputRange: outputRange
-        });
+        }));
     }
 };
 
@@ -16,6 +16,7 @@ import AppConfig from '../common/AppConfig';
 import assert from '../common/assert';
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { Button as ButtonBase, Types } from '../common/Interfaces';
+import Themes from '../common/Themes';
 import Timers from '../common/utils/Timers';
 import { ButtonStyleRuleSet, StyleRuleSetRecursive } from '../common/Types';
 
@@ -334,7 +335,7 @@ export class Button extends ButtonBase {
     private _getDefaultOpacityValue(style?: StyleRuleSetRecursive<ButtonStyleRuleSet>): number {
         let flattenedStyles: { [key: string]: any } | undefined;
         if (style) {
-            flattenedStyles = RN.StyleSheet.flatten(style as RN.StyleProp<RN.ViewProps>);
+            flattenedStyles = RN.StyleSheet.flatten(Themes.resolveStyles(style) as RN.StyleProp<RN.ViewProps>);
         }
 
         return flattenedStyles && (flattenedStyles as Types.ButtonStyle).opacity || 1;
@@ -413,7 +414,7 @@ export class Button extends ButtonBase {
         this._buttonElement.setNativeProps({
             style: [{
                 backgroundColor: _underlayInactive
-            }, this.props.style]
+            }, Themes.resolveStyles(this.props.style)]
         });
     }
 }
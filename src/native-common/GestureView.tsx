@@ -15,6 +15,7 @@ import * as RN from 'react-native';
 import App from '../native-common/App';
 import assert from '../common/assert';
 import { Types } from '../common/Interfaces';
+import Themes from '../common/Themes';
 import Timers from '../common/utils/Timers';
 
 import { MacComponentAccessibilityProps } from './Accessibility';
@@ -313,7 +314,7 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
     }
 
     private _shouldRespondToPinchZoom(e: Types.TouchEvent, gestureState: RN.PanResponderGestureState) {
-        if (!this.props.onPinchZoom) {
+        if (!this.props.onPinchZoom && !this.props.scaleAnimatedValue) {
             return false;
         }
 
@@ -333,7 +334,7 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
     }
 
     private _shouldRespondToRotate(e: Types.TouchEvent, gestureState: RN.PanResponderGestureState) {
-        if (!this.props.onRotate) {
+        if (!this.props.onRotate && !this.props.rotationAnimatedValue) {
             return false;
         }
 
@@ -346,7 +347,7 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
     }
 
     private _shouldRespondToPan(gestureState: RN.PanResponderGestureState) {
-        if (!this.props.onPan) {
+        if (!this.props.onPan && !this._hasFreePanAnimatedValues()) {
             return false;
         }
 
@@ -388,6 +389,13 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
         return isPan;
     }
 
+    // Animated pan values are tracked by a free pan unless there's a handler
+    // for vertical or horizontal pans, in which case they track that pan.
+    private _hasFreePanAnimatedValues() {
+        return !!(this.props.panXAnimatedValue || this.props.panYAnimatedValue) &&
+            !this.props.onPanVertical && !this.props.onPanHorizontal;
+    }
+
     private _calcDistance(dx: number, dy: number) {
         return Math.sqrt(dx * dx + dy * dy);
     }
@@ -465,6 +473,8 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
                 timeStamp: e.timeStamp,
                 isTouch: !EventHelpers.isActuallyMouseEvent(e)
             };
+
+            this._updateMultiTouchAnimatedValues(multiTouchEvent);
         }
 
         if (this.props.onPinchZoom) {
@@ -533,6 +543,13 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
             isTouch: !EventHelpers.isActuallyMouseEvent(this._lastGestureStartEvent)
         };
 
+        if (this.props.panXAnimatedValue) {
+            this.props.panXAnimatedValue.setValue(pageX - initialPageX);
+        }
+        if (this.props.panYAnimatedValue) {
+            this.props.panYAnimatedValue.setValue(pageY - initialPageY);
+        }
+
         switch (gestureType) {
             case GestureType.Pan:
                 if (this.props.onPan) {
@@ -557,6 +574,26 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
         return panEvent;
     }
 
+    // RN's gesture responder system runs in JavaScript, so the values can't be
+    // driven natively. Setting them still bypasses rendering, and animations
+    // that use the native driver pick up the new values.
+    private _updateMultiTouchAnimatedValues(gestureState: Types.MultiTouchGestureState) {
+        if (this.props.scaleAnimatedValue && gestureState.initialDistance > 0) {
+            this.props.scaleAnimatedValue.setValue(gestureState.distance / gestureState.initialDistance);
+        }
+
+        if (this.props.rotationAnimatedValue) {
+            // Report the shorter direction of rotation (between -180 and 180 degrees).
+            let rotation = gestureState.angle - gestureState.initialAngle;
+            if (rotation > 180) {
+                rotation -= 360;
+            } else if (rotation <= -180) {
+                rotation += 360;
+            }
+            this.props.rotationAnimatedValue.setValue(rotation);
+        }
+    }
+
     private _sendTapEvent = (e: Types.TouchEvent) => {
         const button = EventHelpers.toMouseButton(e);
         if (button === 2) {
@@ -635,7 +672,7 @@ export abstract class GestureView extends React.Component<Types.GestureViewProps
         return (
             <RN.View
                 ref={ this._onRef }
-                style={ [ViewBase.getDefaultViewStyle(), this.props.style] as RN.StyleProp<RN.ViewStyle> }
+                style={ [ViewBase.getDefaultViewStyle(), Themes.resolveStyles(this.props.style)] as RN.StyleProp<RN.ViewStyle> }
                 importantForAccessibility={ importantForAccessibility }
                 accessibilityTraits={ accessibilityTrait }
                 accessibilityComponentType={ accessibilityComponentType }
@@ -14,6 +14,7 @@ import * as SyncTasks from 'synctasks';
 
 import { DEFAULT_RESIZE_MODE } from '../common/Image';
 import { Types } from '../common/Interfaces';
+import Themes from '../common/Themes';
 
 import * as _ from './utils/lodashMini';
 import Platform from './Platform';
@@ -145,7 +146,7 @@ export class Image extends React.Component<Types.ImageProps, ImageState> impleme
     }
 
     protected getStyles() {
-        return [_styles.defaultImage, this.props.style];
+        return [_styles.defaultImage, Themes.resolveStyles(this.props.style)];
     }
 
     private _buildResizeMode(): RN.ImageResizeMode {
@@ -14,6 +14,7 @@ import * as RN from 'react-native';
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import * as RX from '../common/Interfaces';
 import Linking from '../native-common/Linking';
+import Themes from '../common/Themes';
 
 import AccessibilityUtil from './AccessibilityUtil';
 import EventHelpers from './utils/EventHelpers';
@@ -43,7 +44,7 @@ export class LinkBase<S> extends React.Component<RX.Types.LinkProps, S> {
 
     render() {
         const internalProps: RN.ExtendedTextProps = {
-            style: this.props.style as any,
+            style: Themes.resolveStyles(this.props.style),
             numberOfLines: this.props.numberOfLines === 0 ? undefined : this.props.numberOfLines,
             onPress: this._onPress,
             onLongPress: this._onLongPress,
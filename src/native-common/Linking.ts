@@ -57,6 +57,14 @@ export class Linking extends CommonLinking {
         });
     }
 
+    pushUrl(url: string): void {
+        // Native apps don't have a URL history.
+    }
+
+    replaceUrl(url: string): void {
+        // Native apps don't have a URL history.
+    }
+
     // Launches Email app
     launchEmail(emailInfo: Types.EmailInfo): SyncTasks.Promise<void> {
         // Format email info
@@ -11,8 +11,12 @@ import * as RN from 'react-native';
 import * as SyncTasks from 'synctasks';
 
 import * as RX from '../common/Interfaces';
+import { ReachabilityMonitor } from '../common/ReachabilityMonitor';
 
 export class Network extends RX.Network {
+    private _lastConnectionType: RX.Types.DeviceNetworkType | undefined;
+    private _reachabilityMonitor = new ReachabilityMonitor(this);
+
     constructor() {
         super();
 
@@ -24,6 +28,15 @@ export class Network extends RX.Network {
         RN.NetInfo.isConnected.addEventListener(
             RN.NetInfo.getConnectionInfo ? 'connectionChange' : 'change',
             onEventOccuredHandler);
+
+        if (RN.NetInfo.getConnectionInfo) {
+            RN.NetInfo.addEventListener('connectionChange', this._onConnectionChanged.bind(this));
+        }
+    }
+
+    get saveDataEnabled(): boolean {
+        // React Native doesn't expose the OS data saver setting.
+        return false;
     }
 
     isConnected(): SyncTasks.Promise<boolean> {
@@ -53,10 +66,59 @@ export class Network extends RX.Network {
         }
     }
 
+    getEffectiveBandwidth(): SyncTasks.Promise<number | undefined> {
+        // React Native doesn't provide a bandwidth estimate.
+        return SyncTasks.Resolved<number | undefined>(undefined);
+    }
+
+    isMetered(): SyncTasks.Promise<boolean> {
+        const deferred = SyncTasks.Defer<boolean>();
+
+        // isConnectionExpensive is implemented only on Android. Elsewhere, assume
+        // that cellular connections are metered.
+        RN.NetInfo.isConnectionExpensive().then(isExpensive => {
+            deferred.resolve(isExpensive);
+        }).catch(() => {
+            this.getType().then(networkType => {
+                deferred.resolve(Network._isMobileNetworkType(networkType));
+            }, () => {
+                deferred.resolve(false);
+            });
+        });
+
+        return deferred.promise();
+    }
+
+    startReachabilityMonitor(config: RX.Types.ReachabilityConfig): void {
+        this._reachabilityMonitor.start(config);
+    }
+
+    stopReachabilityMonitor(): void {
+        this._reachabilityMonitor.stop();
+    }
+
+    getReachability(): RX.Types.NetworkReachability | undefined {
+        return this._reachabilityMonitor.getReachability();
+    }
+
     private _onEventOccured(isConnected: boolean) {
         this.connectivityChangedEvent.fire(isConnected);
     }
 
+    private _onConnectionChanged(info: RN.ConnectionInfo) {
+        const connectionType = Network._getNetworkTypeFromConnectionInfo(info);
+        if (connectionType !== this._lastConnectionType) {
+            this._lastConnectionType = connectionType;
+            this.connectionTypeChangedEvent.fire(connectionType);
+        }
+    }
+
+    private static _isMobileNetworkType(networkType: RX.Types.DeviceNetworkType): boolean {
+        return networkType === RX.Types.DeviceNetworkType.Mobile2G ||
+            networkType === RX.Types.DeviceNetworkType.Mobile3G ||
+            networkType === RX.Types.DeviceNetworkType.Mobile4G;
+    }
+
     private static _getNetworkTypeFromNetInfo(networkType: string): RX.Types.DeviceNetworkType {
         switch (networkType) {
             case 'UNKNOWN':
@@ -83,8 +145,10 @@ export class Network extends RX.Network {
             return RX.Types.DeviceNetworkType.Mobile3G;
         } else if (info.effectiveType === '4g') {
             return RX.Types.DeviceNetworkType.Mobile4G;
-        } else if (info.type === 'wifi' || info.type === 'ETHERNET') {
+        } else if (info.type === 'wifi') {
             return RX.Types.DeviceNetworkType.Wifi;
+        } else if (info.type === 'ETHERNET' || (info.type as string) === 'ethernet') {
+            return RX.Types.DeviceNetworkType.Ethernet;
         } else if (info.type === 'none') {
             return RX.Types.DeviceNetworkType.None;
         }
@@ -11,6 +11,7 @@ import * as React from 'react';
 import * as RN from 'react-native';
 
 import * as RX from '../common/Interfaces';
+import Themes from '../common/Themes';
 
 import { map } from './utils/lodashMini';
 
@@ -20,7 +21,7 @@ export class Picker extends RX.Picker {
             <RN.Picker
                 selectedValue={ this.props.selectedValue }
                 onValueChange={ this.onValueChange }
-                style={ this.props.style as RN.StyleProp<RN.ViewStyle> }
+                style={ Themes.resolveStyles(this.props.style) as RN.StyleProp<RN.ViewStyle> }
                 mode={ this.props.mode }
                 testID={ this.props.testId }
             >
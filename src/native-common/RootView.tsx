@@ -7,6 +7,7 @@
  * The top-most view that's used for proper layering or modals and popups.
  */
 
+import * as PropTypes from 'prop-types';
 import * as React from 'react';
 import * as RN from 'react-native';
 import { SubscriptionToken } from 'subscribableevent';
@@ -58,6 +59,11 @@ const _styles = {
 // Abstract RootView class which handles rendering, front layer view changes and announcement
 // changes. Subclasses must set the mainView state value.
 abstract class BaseRootView<P extends BaseRootViewProps> extends React.Component<P, RootViewState> {
+    // Views in the root view resolve their responsive styles for its window.
+    static childContextTypes: React.ValidationMap<any> = {
+        rootViewId: PropTypes.string
+    };
+
     private _frontLayerViewChangedSubscription: SubscriptionToken | undefined;
     private _newAnnouncementEventChangedSubscription: SubscriptionToken | undefined;
     private _memoryWarningEventSubscription: SubscriptionToken | undefined;
@@ -118,6 +124,12 @@ abstract class BaseRootView<P extends BaseRootViewProps> extends React.Component
         }
     }
 
+    getChildContext() {
+        return {
+            rootViewId: this._rootViewId || undefined
+        };
+    }
+
     render() {
         const modalLayerView = FrontLayerViewManager.getModalLayerView(this._rootViewId);
         const popupLayerView = FrontLayerViewManager.getPopupLayerView(this._rootViewId);
@@ -11,6 +11,7 @@ import * as React from 'react';
 import * as RN from 'react-native';
 
 import * as RX from '../common/Interfaces';
+import Themes from '../common/Themes';
 
 import ViewBase from './ViewBase';
 
@@ -99,8 +100,7 @@ export class ScrollView extends ViewBase<RX.Types.ScrollViewProps, RX.Types.Stat
 
         const internalProps: RN.ScrollViewProps & React.Props<RN.ScrollView> = {
             ref: this._setNativeComponent,
-            // Bug in react-native.d.ts.  style should be "style?: StyleProp<ScrollViewStyle>;" but instead is ViewStyle.
-            style: this.props.style as any,
+            style: Themes.resolveStyles(this.props.style),
             onScroll: scrollHandler,
             automaticallyAdjustContentInsets: false,
             showsHorizontalScrollIndicator: this.props.showsHorizontalScrollIndicator,
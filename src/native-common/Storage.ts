@@ -11,8 +11,13 @@ import * as RN from 'react-native';
 import * as SyncTasks from 'synctasks';
 
 import * as RX from '../common/Interfaces';
+import { StorageNamespace } from '../common/StorageNamespace';
+import { createTransactionError, getStoredSize, StorageTransactionRecorder } from '../common/utils/StorageUtils';
+import { StructuredStorage } from '../common/StructuredStorage';
 
 export class Storage extends RX.Storage {
+    private _structuredStorage = new StructuredStorage(this);
+
     getItem(key: string): SyncTasks.Promise<string | undefined> {
         const deferred = SyncTasks.Defer<string | undefined>();
 
@@ -76,6 +81,144 @@ export class Storage extends RX.Storage {
 
         return deferred.promise();
     }
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        const deferred = SyncTasks.Defer<string[]>();
+
+        RN.AsyncStorage.getAllKeys((error: any, keys: string[] | undefined) => {
+            if (!error) {
+                deferred.resolve(keys || []);
+            } else {
+                deferred.reject(error);
+            }
+        }).catch(err => {
+            deferred.reject(err);
+        });
+
+        return deferred.promise();
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        const deferred = SyncTasks.Defer<RX.Types.StorageItemsResult>();
+
+        RN.AsyncStorage.multiGet(keys, (errors: any, result: [string, string][] | undefined) => {
+            if (!errors) {
+                const items: RX.Types.StorageItemsResult = {};
+                keys.forEach(key => {
+                    items[key] = undefined;
+                });
+                (result || []).forEach(([key, value]) => {
+                    items[key] = value || undefined;
+                });
+                deferred.resolve(items);
+            } else {
+                deferred.reject(errors);
+            }
+        }).catch(err => {
+            deferred.reject(err);
+        });
+
+        return deferred.promise();
+    }
+
+    multiSet(items: RX.Types.StorageItems): SyncTasks.Promise<void> {
+        const deferred = SyncTasks.Defer<void>();
+        const keyValuePairs = Object.keys(items).map(key => [key, items[key]]);
+
+        RN.AsyncStorage.multiSet(keyValuePairs, (errors: any) => {
+            if (!errors) {
+                deferred.resolve(void 0);
+            } else {
+                deferred.reject(errors);
+            }
+        }).catch(err => {
+            deferred.reject(err);
+        });
+
+        return deferred.promise();
+    }
+
+    multiRemove(keys: string[]): SyncTasks.Promise<void> {
+        const deferred = SyncTasks.Defer<void>();
+
+        RN.AsyncStorage.multiRemove(keys, (errors: any) => {
+            if (!errors) {
+                deferred.resolve(void 0);
+            } else {
+                deferred.reject(errors);
+            }
+        }).catch(err => {
+            deferred.reject(err);
+        });
+
+        return deferred.promise();
+    }
+
+    transaction(func: (transaction: RX.Types.StorageTransaction) => void): SyncTasks.Promise<void> {
+        const recorder = new StorageTransactionRecorder();
+
+        try {
+            func(recorder);
+        } catch (e) {
+            return SyncTasks.Rejected(createTransactionError(e));
+        }
+
+        // AsyncStorage doesn't support transactions, so remember the previous
+        // values and restore them if any of the writes fail.
+        return this.multiGet(recorder.getKeys()).then(previousItems => {
+            return this._applyChanges(recorder.getItemsToSet(), recorder.getKeysToRemove()).catch(error => {
+                const itemsToRestore: RX.Types.StorageItems = {};
+                const keysToRestore = Object.keys(previousItems);
+                keysToRestore.forEach(key => {
+                    const value = previousItems[key];
+                    if (value !== undefined) {
+                        itemsToRestore[key] = value;
+                    }
+                });
+
+                const restorePromise = this._applyChanges(itemsToRestore,
+                    keysToRestore.filter(key => previousItems[key] === undefined));
+                return restorePromise.always(() => SyncTasks.Rejected<void>(createTransactionError(error)));
+            });
+        });
+    }
+
+    getObject<T>(key: string): SyncTasks.Promise<T | undefined> {
+        return this._structuredStorage.getObject<T>(key);
+    }
+
+    setObject<T>(key: string, value: T): SyncTasks.Promise<void> {
+        return this._structuredStorage.setObject<T>(key, value);
+    }
+
+    registerSchema(version: number, migrations: RX.Types.StorageMigration[]): SyncTasks.Promise<void> {
+        return this._structuredStorage.registerSchema(version, migrations);
+    }
+
+    getSchemaVersion(): SyncTasks.Promise<number> {
+        return this._structuredStorage.getSchemaVersion();
+    }
+
+    createNamespace(prefix: string): RX.StorageNamespace {
+        return new StorageNamespace(this, prefix);
+    }
+
+    useBackend(backend: RX.Types.StorageBackend): void {
+        // AsyncStorage is the only backend available on native platforms.
+    }
+
+    getUsage(): SyncTasks.Promise<number> {
+        return this.getAllKeys().then(keys => this.multiGet(keys)).then(items => getStoredSize(items));
+    }
+
+    getQuota(): SyncTasks.Promise<number | undefined> {
+        // AsyncStorage doesn't report a quota.
+        return SyncTasks.Resolved<number | undefined>(undefined);
+    }
+
+    private _applyChanges(itemsToSet: RX.Types.StorageItems, keysToRemove: string[]): SyncTasks.Promise<void> {
+        return this.multiSet(itemsToSet).then(() => this.multiRemove(keysToRemove));
+    }
 }
 
 export default new Storage();
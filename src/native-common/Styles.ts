@@ -11,6 +11,9 @@ import * as RN from 'react-native';
 
 import AppConfig from '../common/AppConfig';
 import * as RX from '../common/Interfaces';
+import ResponsiveStyles from '../common/ResponsiveStyles';
+import { StyleValidator } from '../common/StyleValidator';
+import Themes from '../common/Themes';
 
 import { omit } from './utils/lodashMini';
 import Platform from './Platform';
@@ -42,6 +45,26 @@ type ReactNativeViewAndImageCommonStyle<Style extends RX.Types.ViewAndImageCommo
 };
 
 export class Styles extends RX.Styles {
+    themeChangedEvent = Themes.themeChangedEvent;
+
+    private _styleValidator = new StyleValidator(Platform.getType());
+
+    constructor() {
+        super();
+
+        // The theme that matches the system color scheme is used by default.
+        if (RN.Appearance) {
+            Themes.setDarkColorScheme(RN.Appearance.getColorScheme() === 'dark');
+            RN.Appearance.addChangeListener(preferences => {
+                Themes.setDarkColorScheme(preferences.colorScheme === 'dark');
+            });
+        }
+
+        RN.Dimensions.addEventListener('change', () => {
+            ResponsiveStyles.notifyWindowDimensionsChanged();
+        });
+    }
+
     combine<S>(ruleSet1: RX.Types.StyleRuleSetRecursive<S> | undefined, ruleSet2?: RX.Types.StyleRuleSetRecursive<S>)
         : RX.Types.StyleRuleSetOrArray<S> | undefined {
         if (!ruleSet1 && !ruleSet2) {
@@ -78,67 +101,75 @@ export class Styles extends RX.Styles {
 
         // Handle the case where the input was either undefined
         // or not an array (a single style).
-        return ruleSet;
+        return Themes.resolveStyles(ruleSet) as RX.Types.StyleRuleSet<S> | undefined;
     }
 
     // Creates opaque styles that can be used for View
-    createViewStyle(ruleSet: RX.Types.ViewStyle, cacheStyle = true): RX.Types.ViewStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createViewStyle(ruleSet: RX.Types.ViewStyle | RX.Types.ThemedRuleSet<RX.Types.ViewStyle>,
+            cacheStyle = true): RX.Types.ViewStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('View', ruleSet), cacheStyle);
     }
 
     // Creates animated styles that can be used for View
     createAnimatedViewStyle(ruleSet: RX.Types.AnimatedViewStyle): RX.Types.AnimatedViewStyleRuleSet {
-        return this._adaptAnimatedStyles(ruleSet);
+        return this._adaptAnimatedStyles(this._styleValidator.validateRuleSet('AnimatedView', ruleSet));
     }
 
     // Creates opaque styles that can be used for ScrollView
-    createScrollViewStyle(ruleSet: RX.Types.ScrollViewStyle, cacheStyle = true): RX.Types.ScrollViewStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createScrollViewStyle(ruleSet: RX.Types.ScrollViewStyle | RX.Types.ThemedRuleSet<RX.Types.ScrollViewStyle>,
+            cacheStyle = true): RX.Types.ScrollViewStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('ScrollView', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Button
-    createButtonStyle(ruleSet: RX.Types.ButtonStyle, cacheStyle = true): RX.Types.ButtonStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createButtonStyle(ruleSet: RX.Types.ButtonStyle | RX.Types.ThemedRuleSet<RX.Types.ButtonStyle>,
+            cacheStyle = true): RX.Types.ButtonStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Button', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Text
-    createTextStyle(ruleSet: RX.Types.TextStyle, cacheStyle = true): RX.Types.TextStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle, true);
+    createTextStyle(ruleSet: RX.Types.TextStyle | RX.Types.ThemedRuleSet<RX.Types.TextStyle>,
+            cacheStyle = true): RX.Types.TextStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Text', ruleSet), cacheStyle, true);
     }
 
     // Creates opaque styles that can be used for Text
     createAnimatedTextStyle(ruleSet: RX.Types.AnimatedTextStyle): RX.Types.AnimatedTextStyleRuleSet {
-        return this._adaptAnimatedStyles(ruleSet);
+        return this._adaptAnimatedStyles(this._styleValidator.validateRuleSet('AnimatedText', ruleSet));
     }
 
     // Creates opaque styles that can be used for TextInput
-    createTextInputStyle(ruleSet: RX.Types.TextInputStyle, cacheStyle = true): RX.Types.TextInputStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle, true);
+    createTextInputStyle(ruleSet: RX.Types.TextInputStyle | RX.Types.ThemedRuleSet<RX.Types.TextInputStyle>,
+            cacheStyle = true): RX.Types.TextInputStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('TextInput', ruleSet), cacheStyle, true);
     }
 
     // Creates opaque styles that can be used for TextInput
     createAnimatedTextInputStyle(ruleSet: RX.Types.AnimatedTextInputStyle): RX.Types.AnimatedTextInputStyleRuleSet {
-        return this._adaptAnimatedStyles(ruleSet);
+        return this._adaptAnimatedStyles(this._styleValidator.validateRuleSet('AnimatedTextInput', ruleSet));
     }
 
     // Creates opaque styles that can be used for Image
-    createImageStyle(ruleSet: RX.Types.ImageStyle, cacheStyle = true): RX.Types.ImageStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createImageStyle(ruleSet: RX.Types.ImageStyle | RX.Types.ThemedRuleSet<RX.Types.ImageStyle>,
+            cacheStyle = true): RX.Types.ImageStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Image', ruleSet), cacheStyle);
     }
 
     // Creates animated opaque styles that can be used for Image
     createAnimatedImageStyle(ruleSet: RX.Types.AnimatedImageStyle): RX.Types.AnimatedImageStyleRuleSet {
-        return this._adaptAnimatedStyles(ruleSet);
+        return this._adaptAnimatedStyles(this._styleValidator.validateRuleSet('AnimatedImage', ruleSet));
     }
 
     // Creates opaque styles that can be used for Link
-    createLinkStyle(ruleSet: RX.Types.LinkStyle, cacheStyle = true): RX.Types.LinkStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createLinkStyle(ruleSet: RX.Types.LinkStyle | RX.Types.ThemedRuleSet<RX.Types.LinkStyle>,
+            cacheStyle = true): RX.Types.LinkStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Link', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Picker
-    createPickerStyle(ruleSet: RX.Types.PickerStyle, cacheStyle = true): RX.Types.PickerStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createPickerStyle(ruleSet: RX.Types.PickerStyle | RX.Types.ThemedRuleSet<RX.Types.PickerStyle>,
+            cacheStyle = true): RX.Types.PickerStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Picker', ruleSet), cacheStyle);
     }
 
     getCssPropertyAliasesCssStyle(): { [key: string]: string } {
@@ -146,11 +177,43 @@ export class Styles extends RX.Styles {
         return {};
     }
 
+    createResponsiveViewStyle(ruleSet: RX.Types.ResponsiveRuleSet<RX.Types.ViewStyle | RX.Types.ThemedRuleSet<RX.Types.ViewStyle>>,
+            cacheStyle = true): RX.Types.ResponsiveViewStyleRuleSet {
+        return ResponsiveStyles.createResponsiveStyle(ruleSet, style => this.createViewStyle(style, cacheStyle));
+    }
+
+    resolveResponsiveStyle<T>(ruleSet: RX.Types.ResponsiveStyleRuleSet<T>, rootViewId?: string): RX.Types.StyleRuleSetOrArray<T> {
+        return ResponsiveStyles.resolveResponsiveStyle(ruleSet, rootViewId);
+    }
+
+    registerTheme(themeName: string, theme: RX.Types.Theme): void {
+        Themes.registerTheme(themeName, theme);
+    }
+
+    setTheme(themeName: string | undefined): void {
+        Themes.setTheme(themeName);
+    }
+
+    getThemeName(): string | undefined {
+        return Themes.getThemeName();
+    }
+
+    getTheme(): RX.Types.Theme {
+        return Themes.getTheme();
+    }
+
     private _adaptStyles<S extends RX.Types.ViewAndImageCommonStyle>(
-        def: S,
+        def: S | RX.Types.ThemedRuleSet<S>,
         cacheStyle: boolean,
         isTextStyle = false
     ): Readonly<RX.Types.StyleRuleSet<S>> {
+        if (typeof def === 'function') {
+            // Styles registered with the StyleSheet can't be updated when the
+            // theme changes, so themed styles are never registered.
+            return Themes.createThemedStyle(def, ruleSet => this._adaptStyles(omit<S>(ruleSet, forbiddenProps), false, isTextStyle),
+                cacheStyle);
+        }
+
         let adaptedRuleSet = def as ReactNativeViewAndImageCommonStyle<S>;
         if (cacheStyle) {
             StyleLeakDetector.detectLeaks(def);
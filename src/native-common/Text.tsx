@@ -13,6 +13,7 @@ import * as RN from 'react-native';
 
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { Types } from '../common/Interfaces';
+import Themes from '../common/Themes';
 
 import AccessibilityUtil from './AccessibilityUtil';
 import EventHelpers from './utils/EventHelpers';
@@ -117,7 +118,7 @@ export class Text extends React.Component<Types.TextProps, Types.Stateless> impl
     }
 
     protected _getStyles(): Types.StyleRuleSetRecursiveArray<Types.TextStyleRuleSet> {
-        return compact([_styles.defaultText, this.props.style]);
+        return compact([_styles.defaultText, Themes.resolveStyles(this.props.style)]);
     }
 
     requestFocus() {
@@ -15,9 +15,14 @@ import * as SyncTasks from 'synctasks';
 import AppConfig from '../common/AppConfig';
 import assert from '../common/assert';
 import * as RX from '../common/Interfaces';
+import Timers from '../common/utils/Timers';
 
+import Accessibility from './Accessibility';
 import MainViewStore from './MainViewStore';
 
+const _defaultLayoutAnimationDuration = 300;
+const _layoutAnimationSpringDamping = 0.7;
+
 export class UserInterface extends RX.UserInterface {
     private _touchLatencyThresholhdMs: number | undefined;
     private _isNavigatingWithKeyboard = false;
@@ -208,6 +213,56 @@ export class UserInterface extends RX.UserInterface {
         return this._isNavigatingWithKeyboard;
     }
 
+    configureNextLayoutAnimation(config: RX.Types.LayoutAnimationConfig = {}): void {
+        // Reduced motion may skip the animation altogether.
+        const duration = Accessibility.adjustAnimationDuration(
+            config.duration !== undefined ? config.duration : _defaultLayoutAnimationDuration);
+
+        if (duration > 0) {
+            const type = UserInterface._getLayoutAnimationType(config.type);
+            const springDamping = type === RN.LayoutAnimation.Types.spring ? _layoutAnimationSpringDamping : undefined;
+            const animationConfig: RN.LayoutAnimationConfig = {
+                duration,
+                update: { type, springDamping }
+            };
+
+            if (config.animateEnter !== false) {
+                animationConfig.create = {
+                    type,
+                    springDamping,
+                    property: RN.LayoutAnimation.Properties.opacity
+                };
+            }
+
+            RN.LayoutAnimation.configureNext(animationConfig);
+        }
+
+        // React Native reports the end of layout animations only on iOS,
+        // so we rely on the duration instead.
+        if (config.onEnd) {
+            Timers.setTimeout(config.onEnd, duration);
+        }
+    }
+
+    private static _getLayoutAnimationType(type: RX.Types.LayoutAnimationType | undefined): string {
+        switch (type) {
+            case RX.Types.LayoutAnimationType.EaseIn:
+                return RN.LayoutAnimation.Types.easeIn;
+
+            case RX.Types.LayoutAnimationType.EaseOut:
+                return RN.LayoutAnimation.Types.easeOut;
+
+            case RX.Types.LayoutAnimationType.Linear:
+                return RN.LayoutAnimation.Types.linear;
+
+            case RX.Types.LayoutAnimationType.Spring:
+                return RN.LayoutAnimation.Types.spring;
+
+            default:
+                return RN.LayoutAnimation.Types.easeInEaseOut;
+        }
+    }
+
     private _keyboardNavigationStateChanged = (isNavigatingWithKeyboard: boolean) => {
         this._isNavigatingWithKeyboard = isNavigatingWithKeyboard;
     }
@@ -10,13 +10,16 @@
 import * as PropTypes from 'prop-types';
 import * as React from 'react';
 import * as RN from 'react-native';
+import { SubscriptionToken } from 'subscribableevent';
 
 import assert from '../common/assert';
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import * as RX from '../common/Interfaces';
+import ResponsiveStyles from '../common/ResponsiveStyles';
+import Themes from '../common/Themes';
 import Timers from '../common/utils/Timers';
 
-import { MacComponentAccessibilityProps } from './Accessibility';
+import Accessibility, { MacComponentAccessibilityProps } from './Accessibility';
 import AccessibilityUtil from './AccessibilityUtil';
 import Animated from './Animated';
 import App from './App';
@@ -127,11 +130,13 @@ function _childrenEdited(prevChildrenKeys: ChildKey[], nextChildrenKeys: ChildKe
 
 export interface ViewContext {
     focusArbitrator?: FocusArbitratorProvider;
+    rootViewId?: string;
 }
 
 export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.View, RX.View> {
     static contextTypes: React.ValidationMap<any> = {
-        focusArbitrator: PropTypes.object
+        focusArbitrator: PropTypes.object,
+        rootViewId: PropTypes.string
     };
 
     context!: ViewContext;
@@ -165,6 +170,10 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
 
     private _focusArbitratorProvider: FocusArbitratorProvider | undefined;
 
+    // Set while the style contains responsive styles.
+    private _windowDimensionsChangedSubscription: SubscriptionToken | undefined;
+    private _matchingBreakpointsKey = '';
+
     constructor(props: RX.Types.ViewProps, context?: ViewContext) {
         super(props, context);
         this._updateMixin(props, true);
@@ -215,20 +224,22 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
         const prevChildrenKeys = this._childrenKeys || [];
         const nextChildrenKeys = extractChildrenKeys(nextProps.children);
         this._childrenKeys = nextChildrenKeys;
-        if (_childrenEdited(prevChildrenKeys, nextChildrenKeys)) {
+        // Reduced motion may skip the animations altogether.
+        const updateDuration = Accessibility.adjustAnimationDuration(300);
+        if (_childrenEdited(prevChildrenKeys, nextChildrenKeys) && updateDuration > 0) {
             const updateConfig: RN.LayoutAnimationAnim = {
                 delay: 0,
-                duration: 300,
+                duration: updateDuration,
                 type: LayoutAnimation.Types.easeOut
             };
             const createConfig: RN.LayoutAnimationAnim = {
-                delay: 75,
-                duration: 150,
+                delay: Accessibility.adjustAnimationDuration(75),
+                duration: Accessibility.adjustAnimationDuration(150),
                 type: LayoutAnimation.Types.linear,
                 property: LayoutAnimation.Properties.opacity
             };
             const configDictionary: RN.LayoutAnimationConfig = {
-                duration: 300
+                duration: updateDuration
             };
 
             if (nextProps.animateChildMove) {
@@ -252,6 +263,12 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
         if (this.props.autoFocus) {
             this.requestFocus();
         }
+
+        this._updateWindowDimensionsChangedSubscription();
+    }
+
+    componentDidUpdate() {
+        this._updateWindowDimensionsChangedSubscription();
     }
 
     componentWillUnmount() {
@@ -259,6 +276,34 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
         if (this._mixin_componentWillUnmount) {
             this._mixin_componentWillUnmount();
         }
+
+        if (this._windowDimensionsChangedSubscription) {
+            this._windowDimensionsChangedSubscription.unsubscribe();
+            this._windowDimensionsChangedSubscription = undefined;
+        }
+    }
+
+    // Views with responsive styles are rebuilt when the window is resized
+    // past one of the breakpoints.
+    private _updateWindowDimensionsChangedSubscription() {
+        this._matchingBreakpointsKey = ResponsiveStyles.getMatchingBreakpointsKey(this.props.style, this.context.rootViewId);
+
+        if (ResponsiveStyles.containsResponsiveStyle(this.props.style)) {
+            if (!this._windowDimensionsChangedSubscription) {
+                this._windowDimensionsChangedSubscription = ResponsiveStyles.windowDimensionsChangedEvent.subscribe(
+                    this._onWindowDimensionsChanged);
+            }
+        } else if (this._windowDimensionsChangedSubscription) {
+            this._windowDimensionsChangedSubscription.unsubscribe();
+            this._windowDimensionsChangedSubscription = undefined;
+        }
+    }
+
+    private _onWindowDimensionsChanged = () => {
+        if (ResponsiveStyles.getMatchingBreakpointsKey(this.props.style, this.context.rootViewId) !== this._matchingBreakpointsKey) {
+            this._buildInternalProps(this.props);
+            this.forceUpdate();
+        }
     }
 
     private _updateMixin(props: RX.Types.ViewProps, initial: boolean) {
@@ -373,7 +418,9 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
             this._internalProps.onKeyPress = this._onKeyPress;
         }
 
-        const baseStyle = this._getStyles(props);
+        // Responsive styles are resolved for the window of the root view.
+        const style = ResponsiveStyles.resolveStyles(props.style, this.context.rootViewId);
+        const baseStyle = this._getStyles(style);
         this._internalProps.style = baseStyle;
         if (this._mixinIsApplied) {
             const responderProps = {
@@ -387,7 +434,7 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
             this._internalProps = extend(this._internalProps, responderProps);
 
             if (!this.props.disableTouchOpacityAnimation) {
-                const opacityValueFromProps = this._getDefaultOpacityValue(props);
+                const opacityValueFromProps = this._getDefaultOpacityValue(style);
                 if (this._defaultOpacityValue !== opacityValueFromProps) {
                     this._defaultOpacityValue = opacityValueFromProps;
                     this._opacityAnimatedValue = new Animated.Value(this._defaultOpacityValue);
@@ -424,10 +471,10 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
         this._setOpacityTo(this._defaultOpacityValue!, duration);
     }
 
-    private _getDefaultOpacityValue(props: RX.Types.ViewProps): number {
+    private _getDefaultOpacityValue(style: RX.Types.StyleRuleSetRecursive<RX.Types.ViewStyleRuleSet>): number {
         let flattenedStyles: { [key: string]: any } | undefined;
-        if (props && props.style) {
-            flattenedStyles = RN.StyleSheet.flatten(props.style as RN.StyleProp<RN.ViewStyle>);
+        if (style) {
+            flattenedStyles = RN.StyleSheet.flatten(style as RN.StyleProp<RN.ViewStyle>);
         }
 
         return flattenedStyles && flattenedStyles.opacity || 1;
@@ -464,7 +511,7 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RN.Vi
         this._nativeComponent.setNativeProps({
             style: [{
                 backgroundColor: _underlayInactive
-            }, this.props.style]
+            }, Themes.resolveStyles(ResponsiveStyles.resolveStyles(this.props.style, this.context.rootViewId))]
         });
     }
 
@@ -10,6 +10,7 @@
 import * as RN from 'react-native';
 
 import * as RX from '../common/Interfaces';
+import Themes from '../common/Themes';
 
 import { isEqual } from './utils/lodashMini';
 
@@ -43,14 +44,16 @@ export abstract class ViewBase<P extends RX.Types.ViewPropsShared<C>, S, T exten
         this._nativeComponent = view || undefined;
     }
 
-    protected _getStyles(props: RX.Types.ViewProps) {
+    protected _getStyles(style: RX.Types.StyleRuleSetRecursive<RX.Types.ViewStyleRuleSet>) {
+        const resolvedStyle = Themes.resolveStyles(style);
+
         // If this platform uses an explicit default view style, push it on to
         // the front of the list of provided styles.
         if (ViewBase._defaultViewStyle) {
-            return [ViewBase._defaultViewStyle, props.style];
+            return [ViewBase._defaultViewStyle, resolvedStyle];
         }
 
-        return props.style;
+        return resolvedStyle;
     }
 
     protected _onLayout = (event: RN.LayoutChangeEvent) => {
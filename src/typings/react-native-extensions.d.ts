@@ -93,8 +93,17 @@ declare module 'react-native' {
 
     interface ExtendedAccessibilityInfoStatic extends RN.AccessibilityInfoStatic {
         static initialHighContrast: boolean|undefined;
+        static isReduceMotionEnabled?: () => Promise<boolean>;
     }
 
+    // Added in React Native 0.62, so it may not be available.
+    type ColorSchemeName = 'light' | 'dark' | null | undefined;
+    interface AppearanceStatic {
+        getColorScheme(): ColorSchemeName;
+        addChangeListener(listener: (preferences: { colorScheme: ColorSchemeName }) => void): void;
+    }
+    const Appearance: AppearanceStatic | undefined;
+
     interface ExtendedAlertOptions extends RN.AlertOptions {
         rootViewHint?: number;
     }
@@ -11,10 +11,31 @@
 import { Accessibility as CommonAccessibility } from '../common/Accessibility';
 
 export class Accessibility extends CommonAccessibility {
+    private _reducedMotionQuery: MediaQueryList | undefined;
+
+    constructor() {
+        super();
+
+        // Older browsers don't support the media query, in which case it
+        // never matches.
+        if (typeof window !== 'undefined' && window.matchMedia) {
+            this._reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+            this._reducedMotionQuery.addListener(this._onReducedMotionChange);
+        }
+    }
+
     // Calling this API on web has no effect.
     isScreenReaderEnabled(): boolean {
         return false;
     }
+
+    isReducedMotionEnabled(): boolean {
+        return !!this._reducedMotionQuery && this._reducedMotionQuery.matches;
+    }
+
+    private _onReducedMotionChange = (e: MediaQueryListEvent) => {
+        this.reducedMotionChangedEvent.fire(e.matches);
+    }
 }
 
 export default new Accessibility();
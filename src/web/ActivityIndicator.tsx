@@ -12,6 +12,8 @@ import * as React from 'react';
 import { Types } from '../common/Interfaces';
 import Timers from '../common/utils/Timers';
 
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
+
 const _activityIndicatorCss = `
 .rx-activity {
   position: relative;
@@ -624,36 +626,15 @@ export interface ActivityIndicatorState {
 }
 
 export class ActivityIndicator extends React.Component<Types.ActivityIndicatorProps, ActivityIndicatorState> {
-    private static _isStyleSheetInstalled = false;
     private _isMounted = false;
 
-    private static _installStyleSheet() {
-        // Have we installed the style sheet already?
-        if (ActivityIndicator._isStyleSheetInstalled) {
-            return;
-        }
+    constructor(props: Types.ActivityIndicatorProps) {
+        super(props);
 
         // We set the CSS style sheet here to avoid the need
         // for users of this class to carry along another CSS
         // file.
-        const head = document.head || document.getElementsByTagName('head')[0];
-        const style = document.createElement('style') as any;
-
-        style.type = 'text/css';
-        if (style.styleSheet) {
-            style.styleSheet.cssText = _activityIndicatorCss;
-        } else {
-            style.appendChild(document.createTextNode(_activityIndicatorCss));
-        }
-
-        head.appendChild(style);
-        ActivityIndicator._isStyleSheetInstalled = true;
-    }
-
-    constructor(props: Types.ActivityIndicatorProps) {
-        super(props);
-
-        ActivityIndicator._installStyleSheet();
+        GlobalStyleSheets.install('activityIndicator', _activityIndicatorCss);
 
         this.state = { isVisible: false };
     }
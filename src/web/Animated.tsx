@@ -12,17 +12,23 @@
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 
+import { getKeyframeSegments } from '../common/AnimatedKeyframes';
 import AppConfig from '../common/AppConfig';
+import { formatColor, interpolateColor, parseColor, RgbaColor } from '../common/Colors';
 import Easing from '../common/Easing';
 import * as RX from '../common/Interfaces';
+import Timers from '../common/utils/Timers';
 
+import Accessibility from './Accessibility';
 import { executeTransition, TransitionSpec } from './animated/executeTransition';
+import { DecaySolver, FrameAnimation, FrameSolver, KeyframeSolver, SpringSolver } from './animated/FrameAnimation';
 import RXImage from './Image';
 import * as _ from './utils/lodashMini';
 import Styles from './Styles';
 import RXText from './Text';
 import RXTextInput from './TextInput';
 import RXView from './View';
+import WebAnimation from './animated/WebAnimation';
 
 // Animated Css Property Units - check /common/Types for the list of available
 // css animated properties
@@ -34,6 +40,16 @@ const animatedPropUnits: { [key: string]: string } = {
     right: 'px',
     top: 'px',
     bottom: 'px',
+    margin: 'px',
+    marginTop: 'px',
+    marginRight: 'px',
+    marginBottom: 'px',
+    marginLeft: 'px',
+    padding: 'px',
+    paddingTop: 'px',
+    paddingRight: 'px',
+    paddingBottom: 'px',
+    paddingLeft: 'px',
 
     // AnimatedTransformStyleRules
     perspective: '',
@@ -53,13 +69,31 @@ const animatedPropUnits: { [key: string]: string } = {
     // AnimatedViewAndImageCommonStyleRules
     backgroundColor: '',
     opacity: '',
+    borderWidth: 'px',
+    borderColor: '',
     borderRadius: 'px',
 
+    // AnimatedViewStyleRules
+    shadowOpacity: '',
+    shadowRadius: 'px',
+    shadowColor: '',
+
     // AnimatedTextStyleRules
     color: '',
-    fontSize: 'px'
+    fontSize: 'px',
+    letterSpacing: 'px'
  };
 
+let animationEngine = RX.Types.Animated.Engine.Default;
+
+export let useEngine = function(engine: RX.Types.Animated.Engine): void {
+    animationEngine = engine;
+};
+
+function isWebAnimationsEngineActive(): boolean {
+    return animationEngine === RX.Types.Animated.Engine.WebAnimations && WebAnimation.isSupported();
+}
+
 // Every Animation subclass should extend this.
 export abstract class Animation {
     _id: number | undefined;
@@ -71,6 +105,20 @@ export abstract class Animation {
     abstract stop(): void;
 }
 
+// Animations created by this module can also be reset, which puts their values
+// back to where they were when the animation was first started. This is used
+// to restart looped animations from the beginning.
+interface ResettableAnimation extends RX.Types.Animated.CompositeAnimation {
+    _reset(): void;
+}
+
+function resetAnimation(animation: RX.Types.Animated.CompositeAnimation) {
+    const resettableAnimation = animation as ResettableAnimation;
+    if (resettableAnimation._reset) {
+        resettableAnimation._reset();
+    }
+}
+
 // Interface for a component that wants to know when the value
 // of an Animated.Value changes or is about to be animated.
 interface ValueListener {
@@ -78,18 +126,30 @@ interface ValueListener {
     startTransition(valueObject: Value, from: number | string, toValue: number | string, duration: number,
         easing: string, delay: number, onEnd: RX.Types.Animated.EndCallback): void;
     stopTransition(valueObject: Value): number | string | undefined;
+
+    // Only supported by the Web Animations engine.
+    pauseTransition(valueObject: Value): void;
+    resumeTransition(valueObject: Value): void;
+    seekTransition(valueObject: Value, time: number): void;
+    // Returns whether a running transition was reversed.
+    reverseTransition(valueObject: Value): boolean;
 }
 
 // The animated value object
 export class Value extends RX.Types.AnimatedValue {
     protected _value: number | string;
     private _listeners: ValueListener[];
+    private _valueListeners: { [id: string]: RX.Types.AnimatedValueListener };
+    private _nextValueListenerId: number;
+    private _frameAnimation: FrameAnimation | undefined;
 
     // Initializes the object with the defaults and assigns the id for the animated value.
     constructor(value: number) {
         super(value);
         this._value = value;
         this._listeners = [];
+        this._valueListeners = {};
+        this._nextValueListenerId = 1;
     }
 
     // Gets the current animated value (this gets updates after animation concludes)
@@ -113,6 +173,18 @@ export class Value extends RX.Types.AnimatedValue {
         return new InterpolatedValue(config, this);
     }
 
+    // Adds a listener that is called whenever the value is updated. Values
+    // driven by a CSS transition are updated when the transition ends.
+    addListener(callback: RX.Types.AnimatedValueListener): string {
+        const id = String(this._nextValueListenerId++);
+        this._valueListeners[id] = callback;
+        return id;
+    }
+
+    removeListener(id: string): void {
+        delete this._valueListeners[id];
+    }
+
     // Updates a value in this animated reference.
     setValue(value: number | string): void {
         if (value === undefined) {
@@ -127,6 +199,10 @@ export class Value extends RX.Types.AnimatedValue {
 
         // Notify subscribers about the new value.
         _.each(this._listeners, listener => listener.setValue(this, value));
+
+        // Copy the listeners in case one of them removes a listener.
+        const outputValue = this._getOutputValue() as number;
+        _.each(_.clone(this._valueListeners), callback => callback({ value: outputValue }));
     }
 
     // Add listener for when the value gets updated.
@@ -146,10 +222,16 @@ export class Value extends RX.Types.AnimatedValue {
         this._listeners = [];
     }
 
+    _hasListeners(): boolean {
+        return this._listeners.length > 0;
+    }
+
     // Start a specific animation.
     _startTransition(toValue: number | string, duration: number, easing: string, delay: number,
             onEnd: RX.Types.Animated.EndCallback): void {
 
+        this._stopFrameAnimation();
+
         // If there are no listeners, the app probably has a bug where it's
         // starting an animation before the associated element is mounted.
         // Complete the animation immediately by updating to the end value
@@ -190,6 +272,62 @@ export class Value extends RX.Types.AnimatedValue {
         });
     }
 
+    _pauseTransition() {
+        _.each(this._listeners, listener => listener.pauseTransition(this));
+    }
+
+    _resumeTransition() {
+        _.each(this._listeners, listener => listener.resumeTransition(this));
+    }
+
+    _seekTransition(time: number) {
+        _.each(this._listeners, listener => listener.seekTransition(this, time));
+    }
+
+    _reverseTransition(): boolean {
+        let isReversed = false;
+        _.each(this._listeners, listener => {
+            if (listener.reverseTransition(this)) {
+                isReversed = true;
+            }
+        });
+        return isReversed;
+    }
+
+    // Start an animation that updates the value on every animation frame.
+    _startFrameAnimation(solver: FrameSolver, delay: number, onEnd: RX.Types.Animated.EndCallback): FrameAnimation {
+        this._stopFrameAnimation();
+        this._stopTransition();
+
+        const animation = new FrameAnimation(solver, value => {
+            this.setValue(value);
+        }, finished => {
+            if (this._frameAnimation === animation) {
+                this._frameAnimation = undefined;
+            }
+            onEnd({ finished });
+        });
+
+        this._frameAnimation = animation;
+        animation.start(delay);
+
+        return animation;
+    }
+
+    // Stop the active frame animation, if any.
+    _stopFrameAnimation() {
+        if (this._frameAnimation) {
+            const animation = this._frameAnimation;
+            this._frameAnimation = undefined;
+            animation.stop();
+        }
+    }
+
+    // Velocity (in units per second) of the active frame animation, if any.
+    _getFrameAnimationVelocity(): number | undefined {
+        return this._frameAnimation ? this._frameAnimation.getVelocity() : undefined;
+    }
+
     // After an animation is stopped or completed, updates
     // the final value.
     _updateFinalValue(value: number | string) {
@@ -199,6 +337,9 @@ export class Value extends RX.Types.AnimatedValue {
 
 export class InterpolatedValue extends Value {
     private _interpolationConfig: { [key: number]: string | number } | undefined;
+
+    // Defined if all output values are colors.
+    private _outputColors: RgbaColor[] | undefined;
     constructor(private _config: RX.Types.Animated.InterpolationConfigType, rootValue: Value) {
         super(rootValue._getOutputValue() as number);
 
@@ -214,6 +355,11 @@ export class InterpolatedValue extends Value {
         });
         this._interpolationConfig = newInterpolationConfig;
 
+        const outputColors = this._config.outputRange.map(value => typeof value === 'string' ? parseColor(value) : undefined);
+        if (outputColors.every(color => color !== undefined)) {
+            this._outputColors = outputColors as RgbaColor[];
+        }
+
         rootValue._addListener({
             setValue: (valueObject: Value, newValue: number | string) => {
                 this.setValue(valueObject._getOutputValue());
@@ -225,6 +371,18 @@ export class InterpolatedValue extends Value {
             stopTransition: (valueObject: Value) => {
                 this._stopTransition();
                 return undefined;
+            },
+            pauseTransition: (valueObject: Value) => {
+                this._pauseTransition();
+            },
+            resumeTransition: (valueObject: Value) => {
+                this._resumeTransition();
+            },
+            seekTransition: (valueObject: Value, time: number) => {
+                this._seekTransition(time);
+            },
+            reverseTransition: (valueObject: Value) => {
+                return this._reverseTransition();
             }
         });
     }
@@ -283,6 +441,10 @@ export class InterpolatedValue extends Value {
             return this._interpolationConfig[numericInputValue];
         }
 
+        if (this._outputColors) {
+            return this._getInterpolatedColor(numericInputValue, this._outputColors);
+        }
+
         if (inputVal < this._config.inputRange[0]) {
             return outputValues[0];
         }
@@ -302,35 +464,176 @@ export class InterpolatedValue extends Value {
             inputVal);
     }
 
+    _getInterpolatedColor(inputVal: number, outputColors: RgbaColor[]): string {
+        const inputRange = this._config.inputRange;
+        if (inputVal <= inputRange[0]) {
+            return formatColor(outputColors[0]);
+        }
+
+        for (let i = 1; i < inputRange.length; i++) {
+            if (inputVal < inputRange[i]) {
+                const ratio = (inputVal - inputRange[i - 1]) / (inputRange[i] - inputRange[i - 1]);
+                return formatColor(interpolateColor(outputColors[i - 1], outputColors[i], ratio));
+            }
+        }
+
+        return formatColor(outputColors[outputColors.length - 1]);
+    }
+
     _isInterpolated(): boolean {
         return true;
     }
 }
 
+type DerivedValueOperand = Value | number;
+
+// A value that is computed from other values (e.g. by Animated.add). While one
+// of its input values is animated by a CSS transition, the derived value
+// transitions to the value it will have once that transition ends. This is
+// exact only if the derived value is a linear function of the animated input.
+export class DerivedValue extends Value {
+    private _operands: DerivedValueOperand[];
+    private _derive: (operandValues: number[]) => number;
+    private _transitionTimer: number | undefined;
+    private _transitionOnEnd: RX.Types.Animated.EndCallback | undefined;
+
+    constructor(operands: DerivedValueOperand[], derive: (operandValues: number[]) => number) {
+        super(0);
+
+        this._operands = operands;
+        this._derive = derive;
+        this._value = this._derive(this._getOperandValues());
+
+        _.each(operands, operand => {
+            if (operand instanceof Value) {
+                operand._addListener({
+                    setValue: (valueObject: Value, newValue: number | string) => {
+                        this.setValue(this._derive(this._getOperandValues()));
+                    },
+                    startTransition: (valueObject: Value, from: number | string, toValue: number | string, duration: number,
+                            easing: string, delay: number, onEnd: RX.Types.Animated.EndCallback) => {
+                        this._startTransition(this._derive(this._getOperandValues(valueObject, toValue)),
+                            duration, easing, delay, onEnd);
+                    },
+                    stopTransition: (valueObject: Value) => {
+                        this._stopTransition();
+                        return undefined;
+                    },
+                    pauseTransition: (valueObject: Value) => {
+                        this._pauseTransition();
+                    },
+                    resumeTransition: (valueObject: Value) => {
+                        this._resumeTransition();
+                    },
+                    seekTransition: (valueObject: Value, time: number) => {
+                        this._seekTransition(time);
+                    },
+                    reverseTransition: (valueObject: Value) => {
+                        return this._reverseTransition();
+                    }
+                });
+            }
+        });
+    }
+
+    _startTransition(toValue: number | string, duration: number, easing: string, delay: number,
+            onEnd: RX.Types.Animated.EndCallback): void {
+
+        if (this._hasListeners()) {
+            super._startTransition(toValue, duration, easing, delay, onEnd);
+            return;
+        }
+
+        // Nothing is bound to the derived value, so there is nothing to animate.
+        // Rather than ending the animation of the input value early, report
+        // completion when the transition would have ended. The value itself
+        // is updated once the input value reaches its final value.
+        this._cancelTransitionTimer();
+        this._transitionOnEnd = onEnd;
+        this._transitionTimer = Timers.setTimeout(() => {
+            this._transitionTimer = undefined;
+            this._endTransition(true);
+        }, duration + delay);
+    }
+
+    _stopTransition() {
+        if (this._transitionTimer !== undefined) {
+            this._cancelTransitionTimer();
+            this._endTransition(false);
+        }
+
+        super._stopTransition();
+    }
+
+    private _cancelTransitionTimer() {
+        if (this._transitionTimer !== undefined) {
+            Timers.clearTimeout(this._transitionTimer);
+            this._transitionTimer = undefined;
+        }
+    }
+
+    private _endTransition(finished: boolean) {
+        const onEnd = this._transitionOnEnd;
+        this._transitionOnEnd = undefined;
+        if (onEnd) {
+            onEnd({ finished });
+        }
+    }
+
+    // Returns the current values of the operands, optionally substituting the
+    // value of one of them (e.g. with the value it's transitioning to).
+    private _getOperandValues(changedOperand?: Value, changedValue?: number | string): number[] {
+        return _.map(this._operands, operand => {
+            if (!(operand instanceof Value)) {
+                return operand;
+            }
+
+            const value = operand === changedOperand ? changedValue! : operand._getOutputValue();
+            return _.isNumber(value) ? value : parseFloat(value);
+        });
+    }
+}
+
+// Looping animations (such as activity indicators) aren't affected by the
+// reduced motion setting.
+function getTimingDuration(config: RX.Types.Animated.TimingAnimationConfig): number {
+    const duration = config.duration !== undefined ? config.duration : 500;
+    return config.loop ? duration : Accessibility.adjustAnimationDuration(duration);
+}
+
 export let timing: RX.Types.Animated.TimingFunction = function(
-    value: Value, config: RX.Types.Animated.TimingAnimationConfig): RX.Types.Animated.CompositeAnimation {
+    value: Value, config: RX.Types.Animated.TimingAnimationConfig): ResettableAnimation {
 
     if (!value  || !config) {
         throw new Error('Timing animation requires value and config');
     }
 
     let stopLooping = false;
+    let startValue: number | string | undefined;
+    let isReversed = false;
     return {
         start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            if (startValue === undefined) {
+                startValue = value._getInputValue();
+            }
+
             const animate = () => {
                 if (config.loop) {
                     value.setValue(config.loop.restartFrom);
                 }
 
+                const fromValue = value._getInputValue();
                 const easing: RX.Types.Animated.EasingFunction = config.easing || Easing.Default();
-                const duration = config.duration !== undefined ? config.duration : 500;
+                const duration = getTimingDuration(config);
                 const delay = config.delay || 0;
+                isReversed = false;
                 value._startTransition(config.toValue, duration, easing.cssName, delay, result => {
                     // Restart the loop?
                     if (config.loop && !stopLooping) {
                         animate();
                     } else {
-                        value._updateFinalValue(config.toValue);
+                        // A reversed animation ends where it started.
+                        value._updateFinalValue(isReversed ? fromValue : config.toValue);
                     }
 
                     if (onEnd) {
@@ -346,97 +649,427 @@ export let timing: RX.Types.Animated.TimingFunction = function(
         stop: function(): void {
             stopLooping = true;
             value._stopTransition();
+        },
+
+        pause: function(): void {
+            value._pauseTransition();
+        },
+
+        resume: function(): void {
+            value._resumeTransition();
+        },
+
+        seek: function(time: number): void {
+            value._seekTransition(time);
+        },
+
+        reverse: function(): void {
+            // If the transition couldn't be reversed (CSS transitions can't be),
+            // the animation still ends at "toValue".
+            if (value._reverseTransition()) {
+                isReversed = !isReversed;
+            } else if (AppConfig.isDevelopmentMode()) {
+                console.warn('Only running animations that use the Web Animations engine can be reversed');
+            }
+        },
+
+        _reset: function(): void {
+            if (startValue !== undefined) {
+                value._stopTransition();
+                value.setValue(startValue);
+            }
         }
     };
 };
 
+export let spring: RX.Types.Animated.SpringFunction = function(
+    value: Value, config: RX.Types.Animated.SpringAnimationConfig): ResettableAnimation {
+
+    if (!value || !config) {
+        throw new Error('Spring animation requires value and config');
+    }
+
+    let animation: FrameAnimation | undefined;
+    let startValue: number | undefined;
+    return {
+        start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            if (startValue === undefined) {
+                startValue = value._getInputValue() as number;
+            }
+
+            // Like on native platforms, a spring that interrupts another spring
+            // (or decay) continues with the velocity of the interrupted animation.
+            const carriedVelocity = value._getFrameAnimationVelocity();
+            const solver = new SpringSolver({
+                fromValue: value._getInputValue() as number,
+                toValue: config.toValue,
+                stiffness: config.stiffness !== undefined ? config.stiffness : 100,
+                damping: config.damping !== undefined ? config.damping : 10,
+                mass: config.mass !== undefined ? config.mass : 1,
+                velocity: carriedVelocity !== undefined ? carriedVelocity : (config.velocity || 0),
+                overshootClamping: !!config.overshootClamping,
+                restDisplacementThreshold: config.restDisplacementThreshold !== undefined ?
+                    config.restDisplacementThreshold : 0.001,
+                restSpeedThreshold: config.restSpeedThreshold !== undefined ? config.restSpeedThreshold : 0.001
+            });
+
+            animation = value._startFrameAnimation(solver, config.delay || 0, result => {
+                animation = undefined;
+                if (onEnd) {
+                    onEnd(result);
+                }
+            });
+        },
+
+        stop: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+        },
+
+        _reset: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+            if (startValue !== undefined) {
+                value.setValue(startValue);
+            }
+        }
+    };
+};
+
+export let decay: RX.Types.Animated.DecayFunction = function(
+    value: Value, config: RX.Types.Animated.DecayAnimationConfig): ResettableAnimation {
+
+    if (!value || !config) {
+        throw new Error('Decay animation requires value and config');
+    }
+
+    let animation: FrameAnimation | undefined;
+    let startValue: number | undefined;
+    return {
+        start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            if (startValue === undefined) {
+                startValue = value._getInputValue() as number;
+            }
+
+            const solver = new DecaySolver({
+                fromValue: value._getInputValue() as number,
+                velocity: config.velocity,
+                deceleration: config.deceleration !== undefined ? config.deceleration : 0.998
+            });
+
+            animation = value._startFrameAnimation(solver, 0, result => {
+                animation = undefined;
+                if (onEnd) {
+                    onEnd(result);
+                }
+            });
+        },
+
+        stop: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+        },
+
+        _reset: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+            if (startValue !== undefined) {
+                value.setValue(startValue);
+            }
+        }
+    };
+};
+
+export let keyframes: RX.Types.Animated.KeyframesFunction = function(
+    value: Value, keyframes: RX.Types.Animated.Keyframe[], duration: number,
+    config?: RX.Types.Animated.KeyframesAnimationConfig): ResettableAnimation {
+
+    if (!value) {
+        throw new Error('Keyframe animation requires value');
+    }
+
+    const segments = getKeyframeSegments(keyframes, Accessibility.adjustAnimationDuration(duration));
+
+    let animation: FrameAnimation | undefined;
+    let startValue: number | undefined;
+    return {
+        start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            if (startValue === undefined) {
+                startValue = value._getInputValue() as number;
+            }
+
+            const solver = new KeyframeSolver(value._getInputValue() as number, segments);
+            animation = value._startFrameAnimation(solver, config && config.delay || 0, result => {
+                animation = undefined;
+                if (onEnd) {
+                    onEnd(result);
+                }
+            });
+        },
+
+        stop: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+        },
+
+        pause: function(): void {
+            if (animation) {
+                animation.pause();
+            }
+        },
+
+        resume: function(): void {
+            if (animation) {
+                animation.resume();
+            }
+        },
+
+        seek: function(time: number): void {
+            if (animation) {
+                animation.seek(time);
+            }
+        },
+
+        _reset: function(): void {
+            if (animation) {
+                animation.stop();
+            }
+            if (startValue !== undefined) {
+                value.setValue(startValue);
+            }
+        }
+    };
+};
+
+export let add: RX.Types.Animated.ArithmeticFunction = function(a: RX.Types.Animated.ArithmeticOperand,
+        b: RX.Types.Animated.ArithmeticOperand): DerivedValue {
+    return new DerivedValue([a as DerivedValueOperand, b as DerivedValueOperand], values => values[0] + values[1]);
+};
+
+export let subtract: RX.Types.Animated.ArithmeticFunction = function(a: RX.Types.Animated.ArithmeticOperand,
+        b: RX.Types.Animated.ArithmeticOperand): DerivedValue {
+    return new DerivedValue([a as DerivedValueOperand, b as DerivedValueOperand], values => values[0] - values[1]);
+};
+
+export let multiply: RX.Types.Animated.ArithmeticFunction = function(a: RX.Types.Animated.ArithmeticOperand,
+        b: RX.Types.Animated.ArithmeticOperand): DerivedValue {
+    return new DerivedValue([a as DerivedValueOperand, b as DerivedValueOperand], values => values[0] * values[1]);
+};
+
+export let divide: RX.Types.Animated.ArithmeticFunction = function(a: RX.Types.Animated.ArithmeticOperand,
+        b: RX.Types.Animated.ArithmeticOperand): DerivedValue {
+    return new DerivedValue([a as DerivedValueOperand, b as DerivedValueOperand], values => {
+        if (values[1] === 0) {
+            if (AppConfig.isDevelopmentMode()) {
+                console.error('Animated.divide: division by zero');
+            }
+            return 0;
+        }
+        return values[0] / values[1];
+    });
+};
+
+export let modulo: RX.Types.Animated.ModuloFunction = function(value: Value, modulus: number): DerivedValue {
+    return new DerivedValue([value], values => ((values[0] % modulus) + modulus) % modulus);
+};
+
+export let diffClamp: RX.Types.Animated.DiffClampFunction = function(value: Value, min: number, max: number): DerivedValue {
+    let lastInputValue: number | undefined;
+    let clampedValue = 0;
+
+    return new DerivedValue([value], values => {
+        const inputValue = values[0];
+        const unclampedValue = lastInputValue !== undefined ? clampedValue + inputValue - lastInputValue : inputValue;
+        lastInputValue = inputValue;
+        clampedValue = Math.min(Math.max(unclampedValue, min), max);
+        return clampedValue;
+    });
+};
+
 export let sequence: RX.Types.Animated.SequenceFunction = function(
-    animations: Array<RX.Types.Animated.CompositeAnimation>): RX.Types.Animated.CompositeAnimation {
+    animations: Array<RX.Types.Animated.CompositeAnimation>): ResettableAnimation {
 
     if (!animations) {
         throw new Error('Sequence animation requires a list of animations');
     }
 
+    let isRunning = false;
     let hasBeenStopped = false;
-    let doneCount = 0;
-    const result = {
+    let current = 0;
+
+    return {
         start: function(onEnd?: RX.Types.Animated.EndCallback) {
             if (!animations || animations.length === 0) {
                 throw new Error('No animations were passed to the animated sequence API');
             }
 
+            isRunning = true;
+            hasBeenStopped = false;
+            current = 0;
+
             const executeNext = () => {
-                doneCount++;
+                // The sequence ends early only if it was stopped. An animation
+                // that didn't finish for another reason (e.g. because its value
+                // isn't attached to any component) doesn't hold up the others.
+                if (!hasBeenStopped) {
+                    current++;
+                }
 
-                const isFinished = doneCount === animations.length;
-                if (hasBeenStopped || isFinished) {
-                    doneCount = 0;
-                    hasBeenStopped = false;
+                if (hasBeenStopped || current === animations.length) {
+                    isRunning = false;
+                    current = 0;
                     if (onEnd) {
-                        onEnd({ finished: isFinished });
+                        onEnd({ finished: !hasBeenStopped });
                     }
 
                     return;
                 }
 
-                animations[doneCount].start(executeNext);
+                animations[current].start(executeNext);
             };
 
-            animations[doneCount].start(executeNext);
+            animations[current].start(executeNext);
         },
 
         stop: function() {
-            if (doneCount < animations.length) {
-                doneCount = 0;
+            if (isRunning && !hasBeenStopped) {
                 hasBeenStopped = true;
-                animations[doneCount].stop();
+                animations[current].stop();
+            }
+        },
+
+        pause: function() {
+            const animation = animations[current];
+            if (isRunning && animation.pause) {
+                animation.pause();
+            }
+        },
+
+        resume: function() {
+            const animation = animations[current];
+            if (isRunning && animation.resume) {
+                animation.resume();
+            }
+        },
+
+        _reset: function() {
+            // Reset the animations in reverse order so values that are animated
+            // more than once end up where the first animation started them.
+            for (let i = animations.length - 1; i >= 0; i--) {
+                resetAnimation(animations[i]);
             }
         }
     };
-
-    return result;
 };
 
 export let parallel: RX.Types.Animated.ParallelFunction = function(
-    animations: Array<RX.Types.Animated.CompositeAnimation>): RX.Types.Animated.CompositeAnimation {
+    animations: Array<RX.Types.Animated.CompositeAnimation>): ResettableAnimation {
 
     if (!animations) {
         throw new Error('Parallel animation requires a list of animations');
     }
 
-    // Variable to make sure we only call stop() at most once
+    let isRunning = false;
     let hasBeenStopped = false;
-    let doneCount = 0;
+    let endedAnimations: boolean[] = [];
 
-    const result = {
+    const forEachRunningAnimation = (callback: (animation: RX.Types.Animated.CompositeAnimation) => void) => {
+        if (isRunning) {
+            animations.forEach((animation, index) => {
+                if (!endedAnimations[index]) {
+                    callback(animation);
+                }
+            });
+        }
+    };
+
+    const result: ResettableAnimation = {
         start: function(onEnd?: RX.Types.Animated.EndCallback) {
             if (!animations || animations.length === 0) {
                 throw new Error('No animations were passed to the animated parallel API');
             }
 
-            // Walk through animations and start all as soon as possible.
-            animations.forEach((animation, id) => {
-                animation.start(animationResult => {
-                    doneCount++;
-                    const isFinished = doneCount === animations.length;
-                    if (hasBeenStopped || isFinished) {
-                        doneCount = 0;
-                        hasBeenStopped = false;
-                        if (onEnd) {
-                            onEnd({ finished: isFinished });
-                        }
+            isRunning = true;
+            hasBeenStopped = false;
+            endedAnimations = [];
+            let doneCount = 0;
 
-                        return;
+            const onAnimationEnd = (index: number) => {
+                if (endedAnimations[index]) {
+                    return;
+                }
+
+                endedAnimations[index] = true;
+                doneCount++;
+
+                if (doneCount === animations.length) {
+                    isRunning = false;
+                    if (onEnd) {
+                        onEnd({ finished: !hasBeenStopped });
                     }
-                });
+                }
+            };
+
+            // Walk through animations and start all as soon as possible.
+            animations.forEach((animation, index) => {
+                // One of the animations may have been stopped as soon as it was started.
+                if (hasBeenStopped) {
+                    onAnimationEnd(index);
+                } else {
+                    animation.start(() => onAnimationEnd(index));
+                }
             });
         },
 
         stop: function(): void {
-            doneCount = 0;
-            hasBeenStopped = true;
+            if (isRunning && !hasBeenStopped) {
+                hasBeenStopped = true;
+                forEachRunningAnimation(animation => {
+                    animation.stop();
+                });
+            }
+        },
+
+        pause: function(): void {
+            forEachRunningAnimation(animation => {
+                if (animation.pause) {
+                    animation.pause();
+                }
+            });
+        },
+
+        resume: function(): void {
+            forEachRunningAnimation(animation => {
+                if (animation.resume) {
+                    animation.resume();
+                }
+            });
+        },
+
+        seek: function(time: number): void {
+            forEachRunningAnimation(animation => {
+                if (animation.seek) {
+                    animation.seek(time);
+                }
+            });
+        },
+
+        reverse: function(): void {
+            forEachRunningAnimation(animation => {
+                if (animation.reverse) {
+                    animation.reverse();
+                }
+            });
+        },
+
+        _reset: function(): void {
             animations.forEach(animation => {
-                animation.stop();
+                resetAnimation(animation);
             });
         }
     };
@@ -444,8 +1077,152 @@ export let parallel: RX.Types.Animated.ParallelFunction = function(
     return result;
 };
 
+export let delay: RX.Types.Animated.DelayFunction = function(time: number): ResettableAnimation {
+    let timer: number | undefined;
+    let endCallback: RX.Types.Animated.EndCallback | undefined;
+    let isRunning = false;
+
+    // While the delay is paused, the timer isn't running.
+    let remainingTime = 0;
+    let timerStartTime = 0;
+
+    const end = (finished: boolean) => {
+        const onEnd = endCallback;
+        isRunning = false;
+        timer = undefined;
+        endCallback = undefined;
+        if (onEnd) {
+            onEnd({ finished });
+        }
+    };
+
+    const startTimer = () => {
+        timerStartTime = Date.now();
+        timer = Timers.setTimeout(() => {
+            end(true);
+        }, remainingTime);
+    };
+
+    return {
+        start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            endCallback = onEnd;
+            isRunning = true;
+            remainingTime = time;
+            startTimer();
+        },
+
+        stop: function(): void {
+            if (isRunning) {
+                if (timer !== undefined) {
+                    Timers.clearTimeout(timer);
+                }
+                end(false);
+            }
+        },
+
+        pause: function(): void {
+            if (timer !== undefined) {
+                Timers.clearTimeout(timer);
+                timer = undefined;
+                remainingTime = Math.max(0, remainingTime - (Date.now() - timerStartTime));
+            }
+        },
+
+        resume: function(): void {
+            if (isRunning && timer === undefined) {
+                startTimer();
+            }
+        },
+
+        _reset: function(): void {
+            // Nothing to reset.
+        }
+    };
+};
+
+export let stagger: RX.Types.Animated.StaggerFunction = function(
+    time: number, animations: Array<RX.Types.Animated.CompositeAnimation>): RX.Types.Animated.CompositeAnimation {
+
+    if (!animations) {
+        throw new Error('Stagger animation requires a list of animations');
+    }
+
+    return parallel(animations.map((animation, index) => sequence([delay(time * index), animation])));
+};
+
+export let loop: RX.Types.Animated.LoopFunction = function(animation: RX.Types.Animated.CompositeAnimation,
+        config?: RX.Types.Animated.LoopAnimationConfig): ResettableAnimation {
+
+    if (!animation) {
+        throw new Error('Loop animation requires an animation');
+    }
+
+    const iterations = config && config.iterations !== undefined ? config.iterations : -1;
+    let isRunning = false;
+    let hasBeenStopped = false;
+
+    return {
+        start: function(onEnd?: RX.Types.Animated.EndCallback): void {
+            isRunning = true;
+            hasBeenStopped = false;
+            let iterationCount = 0;
+
+            const end = (finished: boolean) => {
+                isRunning = false;
+                if (onEnd) {
+                    onEnd({ finished });
+                }
+            };
+
+            const startIteration = () => {
+                // A negative iteration count loops until the animation is stopped.
+                if (iterations >= 0 && iterationCount >= iterations) {
+                    end(true);
+                    return;
+                }
+
+                iterationCount++;
+                resetAnimation(animation);
+                animation.start(animationResult => {
+                    if (hasBeenStopped || !animationResult.finished) {
+                        end(false);
+                    } else {
+                        startIteration();
+                    }
+                });
+            };
+
+            startIteration();
+        },
+
+        stop: function(): void {
+            if (isRunning && !hasBeenStopped) {
+                hasBeenStopped = true;
+                animation.stop();
+            }
+        },
+
+        pause: function(): void {
+            if (isRunning && animation.pause) {
+                animation.pause();
+            }
+        },
+
+        resume: function(): void {
+            if (isRunning && animation.resume) {
+                animation.resume();
+            }
+        },
+
+        _reset: function(): void {
+            resetAnimation(animation);
+        }
+    };
+};
+
 interface ExtendedTransition extends TransitionSpec {
     onEnd?: RX.Types.Animated.EndCallback;
+    fromValue?: number | string;
     toValue?: number | string;
 }
 
@@ -456,6 +1233,14 @@ interface AnimatedAttribute {
 
 type AnimatedValueMap = { [transform: string]: AnimatedAttribute };
 
+// The parts of an animated shadow that aren't animated.
+interface StaticShadow {
+    width: number;
+    height: number;
+    radius: number | string;
+    color: string;
+}
+
 // Function for creating wrapper AnimatedComponent around passed in component
 function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(Component: any): any {
     class AnimatedComponentGenerated extends React.Component<PropsType, void>
@@ -470,12 +1255,19 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
         // Gets initialized via _updateStypes
         private _staticTransforms!: { [transform: string]: string };
         private _animatedTransforms: AnimatedValueMap;
+        // Gets initialized via _updateStypes
+        private _staticShadow: StaticShadow | undefined;
+        private _animatedShadow: AnimatedValueMap;
+
+        // Runs the active transitions if the Web Animations engine is in use.
+        private _webAnimation: WebAnimation | undefined;
 
         constructor(props: PropsType) {
             super(props);
 
             this._animatedAttributes = {};
             this._animatedTransforms = {};
+            this._animatedShadow = {};
             this._updateStyles(props);
         }
 
@@ -496,23 +1288,23 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
                 return;
             }
 
-            const attrib = this._findAnimatedAttributeByValue(this._animatedAttributes, valueObject);
-            if (attrib) {
-                const domNode = this._getDomNode();
-                if (domNode) {
-                    const cssValue = this._generateCssAttributeValue(attrib, valueObject._getOutputValue());
-                    (domNode.style as any)[attrib] = cssValue;
-                }
+            const domNode = this._getDomNode();
+            if (!domNode) {
                 return;
             }
 
-            const transform = this._findAnimatedAttributeByValue(this._animatedTransforms, valueObject);
-            if (transform) {
-                const domNode = this._getDomNode();
-                if (domNode) {
-                    domNode.style.transform = this._generateCssTransformList(true);
+            // A value may be used for more than one attribute (e.g. for
+            // marginHorizontal, which is expanded into two).
+            _.each(this._findAnimatedAttributesByValue(this._animatedAttributes, valueObject), attrib => {
+                const cssValue = this._generateCssAttributeValue(attrib, valueObject._getOutputValue());
+                (domNode.style as any)[attrib] = cssValue;
+            });
+
+            _.each(this._getAnimatedComposites(), (map, compositeAttrib) => {
+                if (this._findAnimatedAttributesByValue(map, valueObject).length > 0) {
+                    (domNode.style as any)[compositeAttrib] = this._generateCssCompositeValue(compositeAttrib, true);
                 }
-            }
+            });
         }
 
         startTransition(valueObject: Value, fromValue: number | string, toValue: number | string, duration: number,
@@ -524,49 +1316,40 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
                 return;
             }
 
-            let updateTransition = false;
+            const startedTransitions: ExtendedTransition[] = [];
 
-            const attrib = this._findAnimatedAttributeByValue(this._animatedAttributes, valueObject);
-            if (attrib) {
-                if (this._animatedAttributes[attrib].activeTransition) {
-                    if (AppConfig.isDevelopmentMode()) {
-                        console.error('Animation started while animation was already pending');
-                    }
-                }
-                this._animatedAttributes[attrib].activeTransition = {
+            _.each(this._findAnimatedAttributesByValue(this._animatedAttributes, valueObject), attrib => {
+                startedTransitions.push(this._setActiveTransition(this._animatedAttributes[attrib], {
                     property: Styles.convertJsToCssStyle(attrib),
                     from: this._generateCssAttributeValue(attrib, fromValue),
                     to: this._generateCssAttributeValue(attrib, toValue),
                     duration,
                     timing: easing,
                     delay,
-                    toValue,
-                    onEnd
-                };
-                updateTransition = true;
-            }
+                    fromValue,
+                    toValue
+                }));
+            });
 
-            const transform = this._findAnimatedAttributeByValue(this._animatedTransforms, valueObject);
-            if (transform) {
-                if (this._animatedTransforms[transform].activeTransition) {
-                    if (AppConfig.isDevelopmentMode()) {
-                        console.error('Animation started while animation was already pending');
-                    }
-                }
-                this._animatedTransforms[transform].activeTransition = {
-                    property: transform,
-                    from: fromValue,
-                    to: toValue,
-                    duration,
-                    timing: easing,
-                    delay,
-                    toValue,
-                    onEnd
-                };
-                updateTransition = true;
-            }
+            _.each(this._getAnimatedComposites(), map => {
+                _.each(this._findAnimatedAttributesByValue(map, valueObject), key => {
+                    startedTransitions.push(this._setActiveTransition(map[key], {
+                        property: key,
+                        from: fromValue,
+                        to: toValue,
+                        duration,
+                        timing: easing,
+                        delay,
+                        fromValue,
+                        toValue
+                    }));
+                });
+            });
 
-            if (updateTransition) {
+            if (startedTransitions.length > 0) {
+                // The end of the animation is reported only once, no matter
+                // how many attributes the value is used for.
+                startedTransitions[0].onEnd = onEnd;
                 this._updateTransition();
             }
         }
@@ -580,20 +1363,24 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
             }
 
             let partialValue: number | string | undefined;
-            let stoppedTransition: ExtendedTransition | undefined;
-            let updateTransition = false;
+            const stoppedTransitions: ExtendedTransition[] = [];
 
-            const attrib = this._findAnimatedAttributeByValue(this._animatedAttributes, valueObject);
-            if (attrib) {
+            _.each(this._findAnimatedAttributesByValue(this._animatedAttributes, valueObject), attrib => {
                 const activeTransition = this._animatedAttributes[attrib].activeTransition;
-                if (activeTransition) {
+                if (!activeTransition) {
+                    return;
+                }
+
+                if (stoppedTransitions.length === 0) {
                     partialValue = activeTransition.toValue;
 
                     // We don't currently support updating to an intermediate
                     // value for interpolated values because this would involve
                     // mapping the interpolated value in reverse. Instead, we'll
                     // simply update it to the "toValue".
-                    if (!valueObject._isInterpolated()) {
+                    if (this._webAnimation && !valueObject._isInterpolated()) {
+                        partialValue = this._getPartialValue(activeTransition);
+                    } else if (!valueObject._isInterpolated()) {
                         const domNode = this._getDomNode();
                         if (domNode) {
                             const computedStyle = window.getComputedStyle(domNode, undefined);
@@ -602,38 +1389,133 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
                             }
                         }
                     }
+                }
+
+                stoppedTransitions.push(activeTransition);
+                delete this._animatedAttributes[attrib].activeTransition;
+            });
+
+            _.each(this._getAnimatedComposites(), (map, compositeAttrib) => {
+                _.each(this._findAnimatedAttributesByValue(map, valueObject), key => {
+                    const activeTransition = map[key].activeTransition;
+                    if (!activeTransition) {
+                        return;
+                    }
 
-                    stoppedTransition = this._animatedAttributes[attrib].activeTransition;
-                    delete this._animatedAttributes[attrib].activeTransition;
-                    updateTransition = true;
-                }
-            } else {
-                const transform = this._findAnimatedAttributeByValue(this._animatedTransforms, valueObject);
-                if (transform) {
-                    const activeTransition = this._animatedTransforms[transform].activeTransition;
-                    if (activeTransition) {
-                        // We don't currently support updating to an intermediate value
-                        // for transform values. This is because getComputedStyle
-                        // returns a transform matrix for 'transform'. To implement this, we'd
-                        // need to convert the matrix back to a rotation, scale, etc.
-                        partialValue = activeTransition.toValue;
-
-                        stoppedTransition = this._animatedTransforms[transform].activeTransition;
-                        delete this._animatedTransforms[transform].activeTransition;
-                        updateTransition = true;
+                    if (stoppedTransitions.length === 0) {
+                        // With CSS transitions, we don't currently support updating to an
+                        // intermediate value for transform and shadow values. This is because
+                        // getComputedStyle returns a transform matrix for 'transform'. To implement
+                        // this, we'd need to convert the matrix back to a rotation, scale, etc.
+                        partialValue = this._webAnimation && !valueObject._isInterpolated() ?
+                            this._getPartialValue(activeTransition, Styles.convertJsToCssStyle(compositeAttrib)) :
+                            activeTransition.toValue;
                     }
+
+                    stoppedTransitions.push(activeTransition);
+                    delete map[key].activeTransition;
+                });
+            });
+
+            _.each(stoppedTransitions, transition => {
+                if (transition.onEnd) {
+                    transition.onEnd({ finished: false });
                 }
+            });
+
+            if (stoppedTransitions.length > 0) {
+                this._updateTransition();
             }
 
-            if (stoppedTransition && stoppedTransition.onEnd) {
-                stoppedTransition.onEnd({ finished: false });
+            return partialValue;
+        }
+
+        pauseTransition(valueObject: Value): void {
+            const properties = this._getWebAnimationPropertiesForValue(valueObject);
+            if (properties) {
+                this._webAnimation!.pause(properties);
             }
+        }
 
-            if (updateTransition) {
-                this._updateTransition();
+        resumeTransition(valueObject: Value): void {
+            const properties = this._getWebAnimationPropertiesForValue(valueObject);
+            if (properties) {
+                this._webAnimation!.resume(properties);
             }
+        }
 
-            return partialValue;
+        seekTransition(valueObject: Value, time: number): void {
+            const properties = this._getWebAnimationPropertiesForValue(valueObject);
+            if (properties) {
+                this._webAnimation!.seek(properties, time);
+            }
+        }
+
+        reverseTransition(valueObject: Value): boolean {
+            const properties = this._getWebAnimationPropertiesForValue(valueObject);
+            if (!properties) {
+                return false;
+            }
+
+            this._webAnimation!.reverse(properties);
+            return true;
+        }
+
+        // Returns the CSS properties of the active transitions of the value that
+        // are run by the web animation, if any. Other values animated on the
+        // element aren't affected when these are paused, seeked or reversed,
+        // except for those that share a transform or shadow with the value.
+        private _getWebAnimationPropertiesForValue(valueObject: Value): string[] | undefined {
+            const properties: string[] = [];
+            _.each(this._findAnimatedAttributesByValue(this._animatedAttributes, valueObject), attrib => {
+                if (this._animatedAttributes[attrib].activeTransition) {
+                    properties.push(Styles.convertJsToCssStyle(attrib));
+                }
+            });
+
+            _.each(this._getAnimatedComposites(), (map, compositeAttrib) => {
+                _.each(this._findAnimatedAttributesByValue(map, valueObject), key => {
+                    const property = Styles.convertJsToCssStyle(compositeAttrib);
+                    if (map[key].activeTransition && properties.indexOf(property) < 0) {
+                        properties.push(property);
+                    }
+                });
+            });
+
+            if (properties.length === 0) {
+                return undefined;
+            }
+
+            if (!this._webAnimation) {
+                if (AppConfig.isDevelopmentMode()) {
+                    console.error('Pausing, seeking and reversing animations requires the Web Animations engine');
+                }
+                return undefined;
+            }
+
+            return properties;
+        }
+
+        // Computes the value of a transition that is run by the web animation
+        // from its current progress.
+        private _getPartialValue(transition: ExtendedTransition, property = transition.property): number | string | undefined {
+            const fromValue = transition.fromValue;
+            const toValue = transition.toValue;
+            if (!_.isNumber(fromValue) || !_.isNumber(toValue)) {
+                return toValue;
+            }
+
+            return fromValue + (toValue - fromValue) * this._webAnimation!.getProgress(property);
+        }
+
+        private _setActiveTransition(attrib: AnimatedAttribute, transition: ExtendedTransition): ExtendedTransition {
+            if (attrib.activeTransition) {
+                if (AppConfig.isDevelopmentMode()) {
+                    console.error('Animation started while animation was already pending');
+                }
+            }
+            attrib.activeTransition = transition;
+            return transition;
         }
 
         private _getDomNode(): HTMLElement | null {
@@ -641,14 +1523,26 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
         }
 
         // Looks for the specified value object in the specified map. Returns
-        // the key for the map (i.e. the attribute name) if found.
-        private _findAnimatedAttributeByValue(map: AnimatedValueMap, valueObj: Value): string | undefined {
-            const keys = _.keys(map);
-            const index = _.findIndex(keys, key => map[key].valueObject === valueObj);
-            return index >= 0 ? keys[index] : undefined;
+        // the keys for the map (i.e. the attribute names) it was found under.
+        private _findAnimatedAttributesByValue(map: AnimatedValueMap, valueObj: Value): string[] {
+            return _.filter(_.keys(map), key => map[key].valueObject === valueObj);
         }
 
-        // Updates the "transform" CSS attribute for the element to reflect all
+        private _getAnimatedValueMaps(): AnimatedValueMap[] {
+            return [this._animatedAttributes, this._animatedTransforms, this._animatedShadow];
+        }
+
+        // Transforms and shadows are made up of several values that are
+        // combined into a single CSS attribute. Returns the animated values
+        // of each, keyed by that attribute.
+        private _getAnimatedComposites(): { [attrib: string]: AnimatedValueMap } {
+            return {
+                transform: this._animatedTransforms,
+                boxShadow: this._animatedShadow
+            };
+        }
+
+        // Updates the CSS transitions for the element to reflect all
         // active transitions.
         private _updateTransition() {
             // We should never get here if the component isn't mounted,
@@ -664,52 +1558,73 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
                 }
             });
 
-            // If there are any transform transitions, we need to combine
-            // these into a single transition. That means we can't specify
-            // different durations, delays or easing functions for each. That's
-            // an unfortunate limitation of CSS.
-            const keys = _.keys(this._animatedTransforms);
-            const index = _.findIndex(keys, key => !!this._animatedTransforms[key].activeTransition);
-            if (index >= 0) {
-                const transformTransition = this._animatedTransforms[keys[index]].activeTransition!;
-                activeTransitions.push({
-                    property: 'transform',
-                    from: this._generateCssTransformList(false),
-                    to: this._generateCssTransformList(true),
-                    duration: transformTransition.duration,
-                    timing: transformTransition.timing,
-                    delay: transformTransition.delay
-                });
-            }
+            // If there are any transform or shadow transitions, we need to
+            // combine these into a single transition for each. That means we
+            // can't specify different durations, delays or easing functions
+            // for each. That's an unfortunate limitation of CSS.
+            _.each(this._getAnimatedComposites(), (map, compositeAttrib) => {
+                const keys = _.keys(map);
+                const index = _.findIndex(keys, key => !!map[key].activeTransition);
+                if (index >= 0) {
+                    const compositeTransition = map[keys[index]].activeTransition!;
+                    activeTransitions.push({
+                        property: Styles.convertJsToCssStyle(compositeAttrib),
+                        from: this._generateCssCompositeValue(compositeAttrib, false),
+                        to: this._generateCssCompositeValue(compositeAttrib, true),
+                        duration: compositeTransition.duration,
+                        timing: compositeTransition.timing,
+                        delay: compositeTransition.delay
+                    });
+                }
+            });
+
+            // The transitions that are still active are restarted below.
+            this._cancelWebAnimation();
 
             if (activeTransitions.length > 0) {
                 const domNode = this._getDomNode();
                 if (domNode) {
-                    executeTransition(domNode, activeTransitions, () => {
-                        // Clear all of the active transitions and invoke the onEnd callbacks.
-                        const completeTransitions: ExtendedTransition[] = [];
-
-                        _.each(this._animatedAttributes, attrib => {
-                            if (attrib.activeTransition) {
-                                completeTransitions.push(attrib.activeTransition);
-                                delete attrib.activeTransition;
+                    if (isWebAnimationsEngineActive()) {
+                        const webAnimation = new WebAnimation(domNode, activeTransitions, () => {
+                            if (webAnimation === this._webAnimation) {
+                                this._webAnimation = undefined;
+                                this._completeTransitions();
                             }
                         });
-
-                        _.each(this._animatedTransforms, transform => {
-                            if (transform.activeTransition) {
-                                completeTransitions.push(transform.activeTransition);
-                                delete transform.activeTransition;
-                            }
+                        this._webAnimation = webAnimation;
+                    } else {
+                        executeTransition(domNode, activeTransitions, () => {
+                            this._completeTransitions();
                         });
+                    }
+                }
+            }
+        }
 
-                        _.each(completeTransitions, transition => {
-                            if (transition.onEnd) {
-                                transition.onEnd({ finished: true });
-                            }
-                        });
-                    });
+        // Clears all of the active transitions and invokes the onEnd callbacks.
+        private _completeTransitions() {
+            const completeTransitions: ExtendedTransition[] = [];
+
+            _.each(this._getAnimatedValueMaps(), map => {
+                _.each(map, attrib => {
+                    if (attrib.activeTransition) {
+                        completeTransitions.push(attrib.activeTransition);
+                        delete attrib.activeTransition;
+                    }
+                });
+            });
+
+            _.each(completeTransitions, transition => {
+                if (transition.onEnd) {
+                    transition.onEnd({ finished: true });
                 }
+            });
+        }
+
+        private _cancelWebAnimation() {
+            if (this._webAnimation) {
+                this._webAnimation.cancel();
+                this._webAnimation = undefined;
             }
         }
 
@@ -733,6 +1648,12 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
             return newValue;
         }
 
+        private _generateCssCompositeValue(compositeAttrib: string, useActiveValues: boolean): string {
+            return compositeAttrib === 'transform' ?
+                this._generateCssTransformList(useActiveValues) :
+                this._generateCssShadow(useActiveValues);
+        }
+
         // Regenerates the list of transforms, combining all static and animated transforms.
         private _generateCssTransformList(useActiveValues: boolean): string {
             const transformList: string[] = [];
@@ -747,6 +1668,27 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
             return transformList.join(' ');
         }
 
+        // Regenerates the box shadow, combining its static and animated parts.
+        private _generateCssShadow(useActiveValues: boolean): string {
+            if (!this._staticShadow) {
+                return '';
+            }
+
+            const getShadowValue = (part: string, staticValue: number | string) => {
+                const value = this._animatedShadow[part];
+                if (!value) {
+                    return staticValue;
+                }
+                return useActiveValues && value.activeTransition ?
+                    value.activeTransition.to : value.valueObject._getOutputValue();
+            };
+
+            const radius = getShadowValue('shadowRadius', this._staticShadow.radius);
+            const color = getShadowValue('shadowColor', this._staticShadow.color);
+            return this._staticShadow.width + 'px ' + this._staticShadow.height + 'px ' +
+                this._generateCssAttributeValue('shadowRadius', radius) + ' 0px ' + color;
+        }
+
         // Typing of `any` on StyleRuleSet isn't desirable, but there's not accurate typings that can be used to represent
         // our merging of web/RX styles here here
         private _updateStyles(props: RX.Types.CommonStyledProps<RX.Types.StyleRuleSet<any>, C>) {
@@ -758,8 +1700,9 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
             const newAnimatedAttributes: { [transform: string]: Value } = {};
 
             for (const attrib in rawStyles) {
-                // Handle transforms separately.
-                if (attrib === 'staticTransforms' || attrib === 'animatedTransforms') {
+                // Handle transforms and shadows separately.
+                if (attrib === 'staticTransforms' || attrib === 'animatedTransforms' ||
+                        attrib === 'staticShadow' || attrib === 'animatedShadow') {
                     continue;
                 }
 
@@ -774,89 +1717,84 @@ function createAnimatedComponent<PropsType extends RX.Types.CommonProps<C>, C>(C
                 }
             }
 
-            // Handle transforms, which require special processing because they need to
-            // be combined into a single 'transform' CSS attribute.
+            // Handle transforms and shadows, which require special processing because
+            // they need to be combined into a single CSS attribute.
             this._staticTransforms = rawStyles.staticTransforms || {};
-            const newAnimatedTransforms: { [transform: string]: Value } = rawStyles.animatedTransforms || {};
-
-            // Update this._animatedAttributes and this._animatedTransforms so they match
-            // the updated style.
+            this._staticShadow = rawStyles.staticShadow;
+
+            // Update the maps of animated values so they match the updated style.
+            this._updateAnimatedValueMap(this._animatedAttributes, newAnimatedAttributes,
+                'Animated style attribute removed while the animation was active');
+            this._updateAnimatedValueMap(this._animatedTransforms, rawStyles.animatedTransforms || {},
+                'Should not remove an animated transform attribute while the animation is active');
+            this._updateAnimatedValueMap(this._animatedShadow, rawStyles.animatedShadow || {},
+                'Should not remove an animated shadow attribute while the animation is active');
+
+            // A value that is used for more than one attribute may have lost
+            // its listener when one of them was removed.
+            if (this._mountedComponent) {
+                this._addValueListeners();
+            }
 
-            // Remove any previous animated attributes that are no longer present
-            // or associated with different value objects.
-            _.each(this._animatedAttributes, (value, attrib) => {
-                if (!newAnimatedAttributes[attrib] || newAnimatedAttributes[attrib] !== value.valueObject) {
-                    if (value.activeTransition) {
-                        if (AppConfig.isDevelopmentMode()) {
-                            console.error('Animated style attribute removed while the animation was active');
-                        }
-                    }
-                    value.valueObject._removeListener(this);
-                    delete this._animatedAttributes[attrib];
-                }
-            });
+            // Update the transform and shadow attributes in this._processedStyle.
+            const transformList = this._generateCssTransformList(true);
+            if (transformList) {
+                this._processedStyle.transform = transformList;
+            }
 
-            // Add new animated attributes.
-            _.each(newAnimatedAttributes, (value, attrib) => {
-                if (!this._animatedAttributes[attrib]) {
-                    this._animatedAttributes[attrib] = { valueObject: value };
-                    if (this._mountedComponent) {
-                        value._addListener(this);
-                    }
-                }
-            });
+            const shadow = this._generateCssShadow(true);
+            if (shadow) {
+                this._processedStyle.boxShadow = shadow;
+            }
+        }
 
-            // Remove any previous animated transforms that are no longer present
+        private _updateAnimatedValueMap(map: AnimatedValueMap, newValues: { [key: string]: Value },
+                removedWhileActiveMessage: string) {
+            // Remove any previous animated values that are no longer present
             // or associated with different value objects.
-            _.each(this._animatedTransforms, (value, transform) => {
-                if (!newAnimatedTransforms[transform] || newAnimatedTransforms[transform] !== value.valueObject) {
+            _.each(map, (value, key) => {
+                if (!newValues[key] || newValues[key] !== value.valueObject) {
                     if (value.activeTransition) {
                         if (AppConfig.isDevelopmentMode()) {
-                            console.warn('Should not remove an animated transform attribute while the animation is active');
+                            console.warn(removedWhileActiveMessage);
                         }
                     }
                     value.valueObject._removeListener(this);
-                    delete this._animatedTransforms[transform];
+                    delete map[key];
                 }
             });
 
-            // Add new animated transforms.
-            _.each(newAnimatedTransforms, (value, transform) => {
-                if (!this._animatedTransforms[transform]) {
-                    this._animatedTransforms[transform] = { valueObject: value };
-                    if (this._mountedComponent) {
-                        value._addListener(this);
-                    }
+            // Add new animated values.
+            _.each(newValues, (value, key) => {
+                if (!map[key]) {
+                    map[key] = { valueObject: value };
                 }
             });
-
-            // Update the transform attribute in this._processedStyle.
-            const transformList = this._generateCssTransformList(true);
-            if (transformList) {
-                this._processedStyle.transform = transformList;
-            }
         }
 
-        componentDidMount() {
-            _.each(this._animatedAttributes, value => {
-                value.valueObject._addListener(this);
+        private _addValueListeners() {
+            _.each(this._getAnimatedValueMaps(), map => {
+                _.each(map, value => {
+                    value.valueObject._addListener(this);
+                });
             });
+        }
 
-            _.each(this._animatedTransforms, value => {
-                value.valueObject._addListener(this);
-            });
+        componentDidMount() {
+            this._addValueListeners();
         }
 
         componentWillUnmount() {
-            _.each(this._animatedAttributes, value => {
-                value.valueObject._removeListener(this);
-            });
-            this._animatedAttributes = {};
+            this._cancelWebAnimation();
 
-            _.each(this._animatedTransforms, value => {
-                value.valueObject._removeListener(this);
+            _.each(this._getAnimatedValueMaps(), map => {
+                _.each(map, value => {
+                    value.valueObject._removeListener(this);
+                });
             });
+            this._animatedAttributes = {};
             this._animatedTransforms = {};
+            this._animatedShadow = {};
         }
 
         focus() {
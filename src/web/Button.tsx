@@ -16,6 +16,7 @@ import { Button as ButtonBase, Types } from '../common/Interfaces';
 import Timers from '../common/utils/Timers';
 
 import AccessibilityUtil from './AccessibilityUtil';
+import AtomicCss from './utils/AtomicCss';
 import { applyFocusableComponentMixin } from './utils/FocusManager';
 import Styles from './Styles';
 import UserInterface from './UserInterface';
@@ -38,6 +39,8 @@ const _styles = {
     }
 };
 
+AtomicCss.registerStyle(_styles.defaultButton);
+
 const _longPressTime = 1000;
 const _defaultAccessibilityTrait = Types.AccessibilityTrait.Button;
 
@@ -88,12 +91,14 @@ export class Button extends ButtonBase {
         const ariaChecked = AccessibilityUtil.accessibilityTraitToAriaChecked(this.props.accessibilityTraits);
         const isAriaHidden = AccessibilityUtil.isHidden(this.props.importantForAccessibility);
         const ariaHasPopup = AccessibilityUtil.accessibilityTraitToAriaHasPopup(this.props.accessibilityTraits);
+        const { className, style } = AtomicCss.getClassNameAndStyle(this._getStyles() as any);
 
         // NOTE: We use tabIndex=0 to support focus.
         return (
             <button
                 ref={ this._onMount }
-                style={ this._getStyles() as any }
+                className={ className }
+                style={ style }
                 role={ ariaRole }
                 title={ this.props.title }
                 tabIndex={ this.props.tabIndex }
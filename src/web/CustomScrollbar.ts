@@ -12,6 +12,8 @@ import * as React from 'react';
 import assert from '../common/assert';
 import Timers from '../common/utils/Timers';
 
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
+
 const UNIT = 'px';
 const SCROLLER_MIN_SIZE = 15;
 const SCROLLER_NEGATIVE_MARGIN = 30;
@@ -35,7 +37,6 @@ export interface ScrollbarOptions {
 }
 
 let _nativeSrollBarWidth = -1;
-let _isStyleSheetInstalled = false;
 const _customScrollbarCss = `
     .rxCustomScroll .scrollViewport > * {
         box-sizing: border-box;
@@ -184,6 +185,11 @@ export class Scrollbar {
             return _nativeSrollBarWidth;
         }
 
+        // There's no scrollbar to measure when rendering on the server.
+        if (typeof document === 'undefined') {
+            return 0;
+        }
+
         const inner = document.createElement('p');
         inner.style.width = '100%';
         inner.style.height = '100%';
@@ -214,29 +220,6 @@ export class Scrollbar {
         return _nativeSrollBarWidth;
     }
 
-    private static _installStyleSheet() {
-        // Have we installed the style sheet already?
-        if (_isStyleSheetInstalled) {
-            return;
-        }
-
-        // We set the CSS style sheet here to avoid the need
-        // for users of this class to carry along another CSS
-        // file.
-        const head = document.head || document.getElementsByTagName('head')[0];
-        const style = document.createElement('style') as any;
-
-        style.type = 'text/css';
-        if (style.styleSheet) {
-            style.styleSheet.cssText = _customScrollbarCss;
-        } else {
-            style.appendChild(document.createTextNode(_customScrollbarCss));
-        }
-
-        head.appendChild(style);
-        _isStyleSheetInstalled = true;
-    }
-
     constructor(container: HTMLElement) {
         assert(container, 'Container must not be null');
 
@@ -531,7 +514,10 @@ export class Scrollbar {
             // or horizontal is false). We have to take it into account when calculating scroll bar sizes.
             this._hasHiddenScrollbar = !!options.hiddenScrollbar;
         }
-        Scrollbar._installStyleSheet();
+        // We set the CSS style sheet here to avoid the need
+        // for users of this class to carry along another CSS
+        // file.
+        GlobalStyleSheets.install('customScrollbar', _customScrollbarCss);
         this._addScrollbars();
         this.show();
         this._container.addEventListener('mouseenter', this._updateCallback);
@@ -11,6 +11,7 @@ import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 
 import { Types } from '../common/Interfaces';
+import ResponsiveStyles from '../common/ResponsiveStyles';
 import Timers from '../common/utils/Timers';
 
 import MouseResponder from './utils/MouseResponder';
@@ -36,6 +37,7 @@ export class FrontLayerViewManager {
         typeof document.documentElement !== 'undefined' && document.documentElement.dir === 'rtl';
     private _isRtlAllowed = true;
     private _isRtlForced = false;
+    private _isRootViewRendered = false;
 
     setMainView(element: React.ReactElement<any>): void {
         this._mainView = element;
@@ -180,7 +182,37 @@ export class FrontLayerViewManager {
         }
     }
 
+    // Returns the root view for the main view without rendering it. This is
+    // used to render the main view on the server.
+    getRootView(mainView: React.ReactElement<any>): React.ReactElement<any> {
+        this._mainView = mainView;
+        return this._createRootView();
+    }
+
     private _renderRootView() {
+        const rootView = this._createRootView();
+        const container = document.getElementsByClassName('app-container')[0];
+
+        // If the main view was rendered on the server, its markup is
+        // hydrated rather than replaced. React doesn't fix up attributes that
+        // differ from the server-rendered markup, so responsive styles are
+        // resolved the way they were on the server until it's hydrated.
+        if (!this._isRootViewRendered && container.firstElementChild &&
+                container.firstElementChild.hasAttribute('data-reactroot')) {
+            ResponsiveStyles.setHydrating(true);
+            try {
+                ReactDOM.hydrate(rootView, container);
+            } finally {
+                ResponsiveStyles.setHydrating(false);
+            }
+        } else {
+            ReactDOM.render(rootView, container);
+        }
+
+        this._isRootViewRendered = true;
+    }
+
+    private _createRootView(): React.ReactElement<any> {
         const topModal = this._modalStack.length > 0 ?
             this._modalStack[this._modalStack.length - 1].modal : undefined;
         const activePopup = (!this._activePopupOptions || this._activePopupShowDelay > 0) ? undefined :
@@ -188,7 +220,7 @@ export class FrontLayerViewManager {
 
         this._updateModalDisplayedState();
 
-        const rootView = (
+        return (
             <RootView
                 mainView={ this._mainView }
                 keyBoardFocusOutline={ this._mainView!.props.keyBoardFocusOutline }
@@ -202,10 +234,6 @@ export class FrontLayerViewManager {
                 writingDirection={ this._isRtlForced ? 'rtl' : (this._isRtlAllowed ? 'auto' : 'ltr') }
             />
         );
-
-        const container = document.getElementsByClassName('app-container')[0];
-
-        ReactDOM.render(rootView, container);
     }
 
     isPopupDisplayed(popupId?: string): boolean {
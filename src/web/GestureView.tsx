@@ -16,6 +16,7 @@ import { Types } from '../common/Interfaces';
 import Timers from '../common/utils/Timers';
 
 import AccessibilityUtil from './AccessibilityUtil';
+import AtomicCss from './utils/AtomicCss';
 import { clone, isUndefined } from './utils/lodashMini';
 import MouseResponder, { MouseResponderSubscription } from './utils/MouseResponder';
 import Styles from './Styles';
@@ -34,6 +35,8 @@ const _styles = {
     } as any
 };
 
+AtomicCss.registerStyle(_styles.defaultView);
+
 const _longPressDurationThreshold = 750;
 const _doubleTapDurationThreshold = 250;
 const _doubleTapPixelThreshold = 20;
@@ -91,10 +94,12 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
     render() {
         const ariaRole = AccessibilityUtil.accessibilityTraitToString(this.props.accessibilityTraits);
         const isAriaHidden = AccessibilityUtil.isHidden(this.props.importantForAccessibility);
+        const { className, style } = AtomicCss.getClassNameAndStyle(this._getStyles());
 
         return (
             <div
-                style={ this._getStyles() }
+                className={ className }
+                style={ style }
                 tabIndex={ this.props.tabIndex }
                 ref={ this._setContainerRef }
                 onMouseDown={ this._onMouseDown }
@@ -151,7 +156,7 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
             target: container,
             disableWhenModal: !!this.context.isInRxMainView,
             shouldBecomeFirstResponder: (event: MouseEvent) => {
-                if (!this.props.onPan && !this.props.onPanHorizontal && !this.props.onPanVertical) {
+                if (!this._isPanEnabled()) {
                     return false;
                 }
 
@@ -262,7 +267,7 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
     }
 
     private _onMouseDown = (e: React.MouseEvent<any>) => {
-        if (this.props.onPan || this.props.onPanHorizontal || this.props.onPanVertical) {
+        if (this._isPanEnabled()) {
             // Disable mousedown default action that initiates a drag/drop operation and breaks panning with a not-allowed cursor.
             // https://w3c.github.io/uievents/#mousedown
             e.preventDefault();
@@ -273,7 +278,7 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
         }
     }
     private _onTouchStart = (e: React.TouchEvent<any>) => {
-        if (this.props.onPan || this.props.onPanHorizontal || this.props.onPanVertical) {
+        if (this._isPanEnabled()) {
             // Disable mousedown default action that initiates a drag/drop operation and breaks panning with a not-allowed cursor.
             // https://w3c.github.io/uievents/#mousedown
 
@@ -360,8 +365,20 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
             this.props.panPixelThreshold : _panPixelThreshold;
     }
 
+    private _isPanEnabled() {
+        return !!(this.props.onPan || this.props.onPanHorizontal || this.props.onPanVertical ||
+            this.props.panXAnimatedValue || this.props.panYAnimatedValue);
+    }
+
+    // Animated pan values are tracked by a free pan unless there's a handler
+    // for vertical or horizontal pans, in which case they track that pan.
+    private _hasFreePanAnimatedValues() {
+        return !!(this.props.panXAnimatedValue || this.props.panYAnimatedValue) &&
+            !this.props.onPanVertical && !this.props.onPanHorizontal;
+    }
+
     private _shouldRespondToPan(gestureState: Types.PanGestureState): boolean {
-        if (!this.props.onPan) {
+        if (!this.props.onPan && !this._hasFreePanAnimatedValues()) {
             return false;
         }
 
@@ -598,14 +615,27 @@ export class GestureView extends React.Component<Types.GestureViewProps, Types.S
             // do nothing;
         }
 
-        // we need to clean taps in case there was a pan event in the meantime
         if (this._pendingGestureType !== GestureType.None) {
+            this._updatePanAnimatedValues(gestureState);
+
+            // we need to clean taps in case there was a pan event in the meantime
             this._lastTapEvent = undefined;
             this._cancelDoubleTapTimer();
             this._skipNextTap = true;
         }
     }
 
+    // Setting the values updates the styles of the elements they're bound to
+    // directly, without rendering.
+    private _updatePanAnimatedValues(gestureState: Types.PanGestureState) {
+        if (this.props.panXAnimatedValue) {
+            this.props.panXAnimatedValue.setValue(gestureState.clientX - gestureState.initialClientX);
+        }
+        if (this.props.panYAnimatedValue) {
+            this.props.panYAnimatedValue.setValue(gestureState.clientY - gestureState.initialClientY);
+        }
+    }
+
     private _getGestureViewClientRect() {
         return this._container ? this._container.getBoundingClientRect() : null;
     }
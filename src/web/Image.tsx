@@ -15,6 +15,7 @@ import assert from '../common/assert';
 import { DEFAULT_RESIZE_MODE } from '../common/Image';
 import { Types } from '../common/Interfaces';
 
+import AtomicCss from './utils/AtomicCss';
 import * as _ from './utils/lodashMini';
 import restyleForInlineText from './utils/restyleForInlineText';
 import Styles from './Styles';
@@ -364,9 +365,16 @@ export class Image extends React.Component<Types.ImageProps, ImageState> {
             );
         }
 
+        // Images that are inlined in text need their width and height in the
+        // inline style.
+        const { className, style } = this.context.isRxParentAText ?
+            { className: undefined, style: this._getStyles() } :
+            AtomicCss.getClassNameAndStyle(this._getStyles());
+
         const reactElement = (
             <div
-                style={ this._getStyles() }
+                className={ className }
+                style={ style }
                 title={ this.props.title }
                 data-test-id={ this.props.testId }
                 onMouseUp={ this._onMouseUp }
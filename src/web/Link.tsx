@@ -14,6 +14,7 @@ import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { Types } from '../common/Interfaces';
 import Timers from '../common/utils/Timers';
 
+import AtomicCss from './utils/AtomicCss';
 import { applyFocusableComponentMixin } from './utils/FocusManager';
 import Styles from './Styles';
 
@@ -41,6 +42,10 @@ const _styles = {
     }
 };
 
+AtomicCss.registerStyle(_styles.defaultStyle);
+AtomicCss.registerStyle(_styles.ellipsis);
+AtomicCss.registerStyle(_styles.selectable);
+
 const _longPressTime = 1000;
 
 export interface LinkContext {
@@ -58,6 +63,8 @@ export class Link extends React.Component<Types.LinkProps, Types.Stateless> {
     private _longPressTimer: number | undefined;
 
     render() {
+        const { className, style } = AtomicCss.getClassNameAndStyle(this._getStyles());
+
         // SECURITY WARNING:
         //   Note the use of rel='noreferrer'
         //   Destroy the back-link to this window. Otherwise the (untrusted) URL we are about to load can redirect OUR window.
@@ -65,7 +72,8 @@ export class Link extends React.Component<Types.LinkProps, Types.Stateless> {
         return (
             <a
                 ref={ this._onMount }
-                style={ this._getStyles() }
+                className={ className }
+                style={ style }
                 title={ this.props.title }
                 href={ this.props.url }
                 target={ '_blank' }
@@ -13,6 +13,26 @@ import { Types } from '../common/Interfaces';
 import { Linking as CommonLinking } from '../common/Linking';
 
 export class Linking extends CommonLinking {
+    private _initialUrl: string | undefined;
+
+    // URL that was most recently reported or set by the app. Used to avoid
+    // reporting the same navigation twice (browsers fire both popstate and
+    // hashchange when navigating between fragments).
+    private _currentUrl: string | undefined;
+
+    constructor() {
+        super();
+
+        // Avoid accessing window if it's not defined (for test environment).
+        if (typeof(window) !== 'undefined') {
+            this._initialUrl = window.location.href;
+            this._currentUrl = this._initialUrl;
+
+            window.addEventListener('popstate', this._onUrlChanged);
+            window.addEventListener('hashchange', this._onUrlChanged);
+        }
+    }
+
     protected _openUrl(url: string): SyncTasks.Promise<void> {
         const otherWindow = window.open();
         if (!otherWindow) {
@@ -48,7 +68,25 @@ export class Linking extends CommonLinking {
     }
 
     getInitialUrl(): SyncTasks.Promise<string | undefined> {
-        return SyncTasks.Resolved(undefined);
+        return SyncTasks.Resolved(this._initialUrl);
+    }
+
+    pushUrl(url: string): void {
+        window.history.pushState(null, '', url);
+        this._currentUrl = window.location.href;
+    }
+
+    replaceUrl(url: string): void {
+        window.history.replaceState(null, '', url);
+        this._currentUrl = window.location.href;
+    }
+
+    private _onUrlChanged = () => {
+        const url = window.location.href;
+        if (url !== this._currentUrl) {
+            this._currentUrl = url;
+            this.deepLinkRequestEvent.fire(url);
+        }
     }
 }
 
@@ -10,8 +10,22 @@
 import * as SyncTasks from 'synctasks';
 
 import * as RX from '../common/Interfaces';
+import { ReachabilityMonitor } from '../common/ReachabilityMonitor';
+
+// The Network Information API isn't part of the DOM type definitions
+// yet, and it is only implemented by some browsers.
+interface NetworkInformation {
+    type?: string;
+    effectiveType?: string;
+    downlink?: number;
+    saveData?: boolean;
+    addEventListener(type: 'change', listener: () => void): void;
+}
 
 export class Network extends RX.Network {
+    private _lastConnectionType: RX.Types.DeviceNetworkType | undefined;
+    private _reachabilityMonitor = new ReachabilityMonitor(this);
+
     constructor() {
         super();
 
@@ -21,19 +35,108 @@ export class Network extends RX.Network {
         if (typeof(window) !== 'undefined') {
             window.addEventListener('online', onEventOccuredHandler);
             window.addEventListener('offline', onEventOccuredHandler);
+
+            const connection = Network._getConnection();
+            if (connection) {
+                this._lastConnectionType = Network._getNetworkTypeFromConnection(connection);
+                connection.addEventListener('change', this._onConnectionChanged.bind(this));
+            }
         }
     }
 
+    get saveDataEnabled(): boolean {
+        const connection = Network._getConnection();
+        return !!connection && !!connection.saveData;
+    }
+
     isConnected(): SyncTasks.Promise<boolean> {
         return SyncTasks.Resolved(navigator.onLine);
     }
 
     getType(): SyncTasks.Promise<RX.Types.DeviceNetworkType> {
-        return SyncTasks.Resolved(RX.Types.DeviceNetworkType.Unknown);
+        const connection = Network._getConnection();
+        return SyncTasks.Resolved(connection ? Network._getNetworkTypeFromConnection(connection) :
+            RX.Types.DeviceNetworkType.Unknown);
+    }
+
+    // Returns the estimated downlink bandwidth in megabits per second.
+    getEffectiveBandwidth(): SyncTasks.Promise<number | undefined> {
+        const connection = Network._getConnection();
+        return SyncTasks.Resolved(connection ? connection.downlink : undefined);
+    }
+
+    isMetered(): SyncTasks.Promise<boolean> {
+        const connection = Network._getConnection();
+        return SyncTasks.Resolved(!!connection && connection.type === 'cellular');
+    }
+
+    startReachabilityMonitor(config: RX.Types.ReachabilityConfig): void {
+        this._reachabilityMonitor.start(config);
+    }
+
+    stopReachabilityMonitor(): void {
+        this._reachabilityMonitor.stop();
+    }
+
+    getReachability(): RX.Types.NetworkReachability | undefined {
+        return this._reachabilityMonitor.getReachability();
     }
 
     private _onEventOccured() {
         this.connectivityChangedEvent.fire(navigator.onLine);
+        this._onConnectionChanged();
+    }
+
+    private _onConnectionChanged() {
+        const connection = Network._getConnection();
+        if (!connection) {
+            return;
+        }
+
+        // The change event also fires when the bandwidth estimate changes,
+        // so report only changes to the type of connection.
+        const connectionType = Network._getNetworkTypeFromConnection(connection);
+        if (connectionType !== this._lastConnectionType) {
+            this._lastConnectionType = connectionType;
+            this.connectionTypeChangedEvent.fire(connectionType);
+        }
+    }
+
+    private static _getConnection(): NetworkInformation | undefined {
+        if (typeof(navigator) === 'undefined') {
+            return undefined;
+        }
+        return (navigator as any).connection;
+    }
+
+    private static _getNetworkTypeFromConnection(connection: NetworkInformation): RX.Types.DeviceNetworkType {
+        switch (connection.type) {
+            case 'none':
+                return RX.Types.DeviceNetworkType.None;
+            case 'wifi':
+            case 'wimax':
+                return RX.Types.DeviceNetworkType.Wifi;
+            case 'ethernet':
+                return RX.Types.DeviceNetworkType.Ethernet;
+            case 'cellular':
+                return Network._getNetworkTypeFromEffectiveType(connection.effectiveType);
+        }
+
+        return RX.Types.DeviceNetworkType.Unknown;
+    }
+
+    private static _getNetworkTypeFromEffectiveType(effectiveType: string | undefined): RX.Types.DeviceNetworkType {
+        switch (effectiveType) {
+            case 'slow-2g':
+            case '2g':
+                return RX.Types.DeviceNetworkType.Mobile2G;
+            case '3g':
+                return RX.Types.DeviceNetworkType.Mobile3G;
+            case '4g':
+                return RX.Types.DeviceNetworkType.Mobile4G;
+        }
+
+        return RX.Types.DeviceNetworkType.Unknown;
     }
 }
 
@@ -11,14 +11,18 @@ import * as React from 'react';
 
 import * as RX from '../common/Interfaces';
 
+import AtomicCss from './utils/AtomicCss';
 import * as _ from './utils/lodashMini';
 import Styles from './Styles';
 
 export class Picker extends RX.Picker {
     render() {
+        const { className, style } = AtomicCss.getClassNameAndStyle(this._getStyles() as any);
+
         return (
             <select
-                style={ this._getStyles() as any }
+                className={ className }
+                style={ style }
                 value={ this.props.selectedValue }
                 onChange={ this._onValueChange }
                 data-test-id={ this.props.testId }
@@ -15,6 +15,8 @@ import RXInterfaces = require('../common/Interfaces');
 import LocationImpl from '../common/Location';
 import RXModuleInterface = require('../common/ModuleInterface');
 import PopupImpl from '../web/Popup';
+import ResponsiveStyles from '../common/ResponsiveStyles';
+import Themes from '../common/Themes';
 import RXTypes = require('../common/Types');
 
 import AccessibilityImpl from './Accessibility';
@@ -46,6 +48,8 @@ import UserPresenceImpl from './UserPresence';
 import ViewImpl from './View';
 import { ViewBase } from './ViewBase';
 setSortAndFilterFunc(FocusManager.sortAndFilterAutoFocusCandidates);
+Themes.setAccessibility(AccessibilityImpl);
+ResponsiveStyles.setUserInterface(UserInterfaceImpl);
 
 // -- STRANGE THINGS GOING ON HERE --
 //
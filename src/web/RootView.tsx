@@ -19,6 +19,7 @@ import Timers from '../common/utils/Timers';
 
 import AccessibilityAnnouncer from './AccessibilityAnnouncer';
 import FocusManager from './utils/FocusManager';
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
 import Input from './Input';
 import * as _ from './utils/lodashMini';
 import ModalContainer from './ModalContainer';
@@ -61,13 +62,7 @@ const KEY_CODE_TAB = 9;
 const KEY_CODE_ESC = 27;
 
 // Setting the expected default box-sizing for everything.
-if (typeof document !== 'undefined') {
-    const defaultBoxSizing = '*, *:before, *:after { box-sizing: border-box; }';
-    const style = document.createElement('style');
-    style.type = 'text/css';
-    style.appendChild(document.createTextNode(defaultBoxSizing));
-    document.head.appendChild(style);
-}
+GlobalStyleSheets.install('rootView', '*, *:before, *:after { box-sizing: border-box; }');
 
 export interface MainViewContext {
     isInRxMainView?: boolean;
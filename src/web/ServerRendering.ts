@@ -0,0 +1,40 @@
+/**
+ * ServerRendering.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Renders the main view to HTML on the server so the client can hydrate it.
+ * This module isn't part of the ReactXP module, so apps that don't render on
+ * the server don't bundle the React DOM server renderer.
+ */
+
+import * as React from 'react';
+import * as ReactDOMServer from 'react-dom/server';
+
+import AtomicCss from './utils/AtomicCss';
+import FrontLayerViewManager from './FrontLayerViewManager';
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
+
+export interface ServerRenderingResult {
+    // The markup of the main view, to be placed in the app container element.
+    html: string;
+
+    // The style sheet for the markup, to be placed in the head of the page.
+    css: string;
+}
+
+export function renderToString(mainView: React.ReactElement<any>): ServerRenderingResult {
+    AtomicCss.startCollectingClassNames();
+
+    let html: string;
+    let atomicCss: string;
+    try {
+        html = ReactDOMServer.renderToString(FrontLayerViewManager.getRootView(mainView));
+    } finally {
+        atomicCss = AtomicCss.stopCollectingClassNames();
+    }
+
+    // Components install the global style sheets they need as they render.
+    return { html, css: GlobalStyleSheets.getCssText() + '\n' + atomicCss };
+}
@@ -5,35 +5,120 @@
  * Licensed under the MIT license.
  *
  * Web-specific implementation of the cross-platform database storage abstraction.
+ * Items are stored in localStorage by default, but apps can opt into IndexedDB
+ * or a non-persistent in-memory store at startup.
  */
 
 import * as SyncTasks from 'synctasks';
 
 import * as RX from '../common/Interfaces';
+import { StorageNamespace } from '../common/StorageNamespace';
+import { createTransactionError, StorageTransactionRecorder } from '../common/utils/StorageUtils';
+import { StructuredStorage } from '../common/StructuredStorage';
+
+import { IndexedDbBackend } from './storage/IndexedDbBackend';
+import { LocalStorageBackend } from './storage/LocalStorageBackend';
+import { MemoryStorageBackend } from './storage/MemoryStorageBackend';
+import { StorageBackend } from './storage/StorageBackend';
 
 export class Storage extends RX.Storage {
+    private _backend: StorageBackend | undefined;
+    private _structuredStorage = new StructuredStorage(this);
+
+    useBackend(backend: RX.Types.StorageBackend): void {
+        switch (backend) {
+            case RX.Types.StorageBackend.IndexedDb:
+                this._backend = IndexedDbBackend.isAvailable() ? new IndexedDbBackend() : new MemoryStorageBackend();
+                break;
+
+            case RX.Types.StorageBackend.Memory:
+                this._backend = new MemoryStorageBackend();
+                break;
+
+            default:
+                this._backend = LocalStorageBackend.isAvailable() ? new LocalStorageBackend() : new MemoryStorageBackend();
+                break;
+        }
+    }
+
     getItem(key: string): SyncTasks.Promise<string | undefined> {
-        const value = window.localStorage.getItem(key);
-        return SyncTasks.Resolved<string | undefined>(value === null ? undefined : value);
+        return this._getBackend().multiGet([key]).then(items => items[key]);
     }
 
     setItem(key: string, value: string): SyncTasks.Promise<void> {
+        return this._getBackend().commit({ [key]: value }, []);
+    }
+
+    removeItem(key: string): SyncTasks.Promise<void> {
+        return this._getBackend().commit({}, [key]);
+    }
+
+    clear(): SyncTasks.Promise<void> {
+        return this._getBackend().clear();
+    }
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        return this._getBackend().getAllKeys();
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        return this._getBackend().multiGet(keys);
+    }
+
+    multiSet(items: RX.Types.StorageItems): SyncTasks.Promise<void> {
+        return this._getBackend().commit(items, []);
+    }
+
+    multiRemove(keys: string[]): SyncTasks.Promise<void> {
+        return this._getBackend().commit({}, keys);
+    }
+
+    transaction(func: (transaction: RX.Types.StorageTransaction) => void): SyncTasks.Promise<void> {
+        const recorder = new StorageTransactionRecorder();
+
         try {
-            window.localStorage.setItem(key, value);
+            func(recorder);
         } catch (e) {
-            return SyncTasks.Rejected(e);
+            // Nothing has been written yet, so there's nothing to roll back.
+            return SyncTasks.Rejected(createTransactionError(e));
         }
-        return SyncTasks.Resolved<void>();
+
+        return this._getBackend().commit(recorder.getItemsToSet(), recorder.getKeysToRemove());
     }
 
-    removeItem(key: string): SyncTasks.Promise<void> {
-        window.localStorage.removeItem(key);
-        return SyncTasks.Resolved<void>();
+    getObject<T>(key: string): SyncTasks.Promise<T | undefined> {
+        return this._structuredStorage.getObject<T>(key);
     }
 
-    clear(): SyncTasks.Promise<void> {
-        window.localStorage.clear();
-        return SyncTasks.Resolved<void>();
+    setObject<T>(key: string, value: T): SyncTasks.Promise<void> {
+        return this._structuredStorage.setObject<T>(key, value);
+    }
+
+    registerSchema(version: number, migrations: RX.Types.StorageMigration[]): SyncTasks.Promise<void> {
+        return this._structuredStorage.registerSchema(version, migrations);
+    }
+
+    getSchemaVersion(): SyncTasks.Promise<number> {
+        return this._structuredStorage.getSchemaVersion();
+    }
+
+    createNamespace(prefix: string): RX.StorageNamespace {
+        return new StorageNamespace(this, prefix);
+    }
+
+    getUsage(): SyncTasks.Promise<number> {
+        return this._getBackend().getUsage();
+    }
+
+    getQuota(): SyncTasks.Promise<number | undefined> {
+        return this._getBackend().getQuota();
+    }
+
+    private _getBackend(): StorageBackend {
+        if (!this._backend) {
+            this._backend = LocalStorageBackend.isAvailable() ? new LocalStorageBackend() : new MemoryStorageBackend();
+        }
+        return this._backend;
     }
 }
 
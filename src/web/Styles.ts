@@ -9,13 +9,42 @@
 
 import AppConfig from '../common/AppConfig';
 import * as RX from '../common/Interfaces';
+import ResponsiveStyles from '../common/ResponsiveStyles';
 import StyleLeakDetector from '../common/StyleLeakDetector';
+import { StyleValidator } from '../common/StyleValidator';
+import Themes from '../common/Themes';
 
+import AtomicCss from './utils/AtomicCss';
 import * as _ from './utils/lodashMini';
 
 type CssAliasMap = { [prop: string]: string };
 
 export class Styles extends RX.Styles {
+    themeChangedEvent = Themes.themeChangedEvent;
+
+    private _styleValidator = new StyleValidator('web');
+
+    constructor() {
+        super();
+
+        // The theme that matches the system color scheme is used by default.
+        // Older browsers don't support the media query, in which case the
+        // light theme is used.
+        if (typeof window !== 'undefined' && window.matchMedia) {
+            const darkColorSchemeQuery = window.matchMedia('(prefers-color-scheme: dark)');
+            Themes.setDarkColorScheme(darkColorSchemeQuery.matches);
+            darkColorSchemeQuery.addListener(event => {
+                Themes.setDarkColorScheme(event.matches);
+            });
+        }
+
+        if (typeof window !== 'undefined') {
+            window.addEventListener('resize', () => {
+                ResponsiveStyles.notifyWindowDimensionsChanged();
+            });
+        }
+    }
+
     // Combines a set of styles - for web we need to flatten to a single object
     combine<S>(ruleSet1: RX.Types.StyleRuleSetRecursive<S> | undefined, ruleSet2?: RX.Types.StyleRuleSetRecursive<S>): S | undefined {
         if (!ruleSet1 && !ruleSet2) {
@@ -88,67 +117,100 @@ export class Styles extends RX.Styles {
             return combinedStyles as S;
         }
 
-        return ruleSet as S;
+        return Themes.resolveStyles(ruleSet) as S;
     }
 
     // Creates opaque styles that can be used for View
-    createViewStyle(ruleSet: RX.Types.ViewStyle, cacheStyle = true): RX.Types.ViewStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createViewStyle(ruleSet: RX.Types.ViewStyle | RX.Types.ThemedRuleSet<RX.Types.ViewStyle>,
+            cacheStyle = true): RX.Types.ViewStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('View', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for View
     createAnimatedViewStyle(ruleSet: RX.Types.AnimatedViewStyle): RX.Types.AnimatedViewStyleRuleSet {
-        return this._adaptStyles(ruleSet, false);
+        return this._adaptStyles(this._styleValidator.validateRuleSet('AnimatedView', ruleSet), false);
     }
 
     // Creates opaque styles that can be used for ScrollView
-    createScrollViewStyle(ruleSet: RX.Types.ScrollViewStyle, cacheStyle = true): RX.Types.ScrollViewStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createScrollViewStyle(ruleSet: RX.Types.ScrollViewStyle | RX.Types.ThemedRuleSet<RX.Types.ScrollViewStyle>,
+            cacheStyle = true): RX.Types.ScrollViewStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('ScrollView', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Button
-    createButtonStyle(ruleSet: RX.Types.ButtonStyle, cacheStyle = true): RX.Types.ButtonStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createButtonStyle(ruleSet: RX.Types.ButtonStyle | RX.Types.ThemedRuleSet<RX.Types.ButtonStyle>,
+            cacheStyle = true): RX.Types.ButtonStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Button', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Text
-    createTextStyle(ruleSet: RX.Types.TextStyle, cacheStyle = true): RX.Types.TextStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle, true);
+    createTextStyle(ruleSet: RX.Types.TextStyle | RX.Types.ThemedRuleSet<RX.Types.TextStyle>,
+            cacheStyle = true): RX.Types.TextStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Text', ruleSet), cacheStyle, true);
     }
 
     // Creates opaque styles that can be used for Text
     createAnimatedTextStyle(ruleSet: RX.Types.AnimatedTextStyle): RX.Types.AnimatedTextStyleRuleSet {
-        return this._adaptStyles(ruleSet, false);
+        return this._adaptStyles(this._styleValidator.validateRuleSet('AnimatedText', ruleSet), false);
     }
 
     // Creates opaque styles that can be used for TextInput
-    createTextInputStyle(ruleSet: RX.Types.TextInputStyle, cacheStyle = true): RX.Types.TextInputStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle, true);
+    createTextInputStyle(ruleSet: RX.Types.TextInputStyle | RX.Types.ThemedRuleSet<RX.Types.TextInputStyle>,
+            cacheStyle = true): RX.Types.TextInputStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('TextInput', ruleSet), cacheStyle, true);
     }
 
     // Creates opaque styles that can be used for TextInput
     createAnimatedTextInputStyle(ruleSet: RX.Types.AnimatedTextInputStyle): RX.Types.AnimatedTextInputStyleRuleSet {
-        return this._adaptStyles(ruleSet, false);
+        return this._adaptStyles(this._styleValidator.validateRuleSet('AnimatedTextInput', ruleSet), false);
     }
 
     // Creates opaque styles that can be used for Link
-    createLinkStyle(ruleSet: RX.Types.LinkStyle, cacheStyle = true): RX.Types.LinkStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createLinkStyle(ruleSet: RX.Types.LinkStyle | RX.Types.ThemedRuleSet<RX.Types.LinkStyle>,
+            cacheStyle = true): RX.Types.LinkStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Link', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Image
-    createImageStyle(ruleSet: RX.Types.ImageStyle, cacheStyle = true): RX.Types.ImageStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createImageStyle(ruleSet: RX.Types.ImageStyle | RX.Types.ThemedRuleSet<RX.Types.ImageStyle>,
+            cacheStyle = true): RX.Types.ImageStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Image', ruleSet), cacheStyle);
     }
 
     // Creates opaque styles that can be used for Image
     createAnimatedImageStyle(ruleSet: RX.Types.AnimatedImageStyle): RX.Types.AnimatedImageStyleRuleSet {
-        return this._adaptStyles(ruleSet, false);
+        return this._adaptStyles(this._styleValidator.validateRuleSet('AnimatedImage', ruleSet), false);
     }
 
     // Creates opaque styles that can be used for Picker
-    createPickerStyle(ruleSet: RX.Types.PickerStyle, cacheStyle = true): RX.Types.PickerStyleRuleSet {
-        return this._adaptStyles(ruleSet, cacheStyle);
+    createPickerStyle(ruleSet: RX.Types.PickerStyle | RX.Types.ThemedRuleSet<RX.Types.PickerStyle>,
+            cacheStyle = true): RX.Types.PickerStyleRuleSet {
+        return this._adaptStyles(this._styleValidator.validateRuleSet('Picker', ruleSet), cacheStyle);
+    }
+
+    createResponsiveViewStyle(ruleSet: RX.Types.ResponsiveRuleSet<RX.Types.ViewStyle | RX.Types.ThemedRuleSet<RX.Types.ViewStyle>>,
+            cacheStyle = true): RX.Types.ResponsiveViewStyleRuleSet {
+        return ResponsiveStyles.createResponsiveStyle(ruleSet, style => this.createViewStyle(style, cacheStyle));
+    }
+
+    resolveResponsiveStyle<T>(ruleSet: RX.Types.ResponsiveStyleRuleSet<T>, rootViewId?: string): RX.Types.StyleRuleSetOrArray<T> {
+        return ResponsiveStyles.resolveResponsiveStyle(ruleSet, rootViewId);
+    }
+
+    registerTheme(themeName: string, theme: RX.Types.Theme): void {
+        Themes.registerTheme(themeName, theme);
+    }
+
+    setTheme(themeName: string | undefined): void {
+        Themes.setTheme(themeName);
+    }
+
+    getThemeName(): string | undefined {
+        return Themes.getThemeName();
+    }
+
+    getTheme(): RX.Types.Theme {
+        return Themes.getTheme();
     }
 
     // Returns the name of a CSS property or its alias. Returns undefined if the property is not supported.
@@ -267,6 +329,10 @@ export class Styles extends RX.Styles {
     }
 
     private _adaptStyles(def: any, validate: boolean, isTextStyle = false): Readonly<any> {
+        if (typeof def === 'function') {
+            return Themes.createThemedStyle(def, ruleSet => this._adaptStyles(ruleSet, false, isTextStyle), validate);
+        }
+
         if (validate) {
             StyleLeakDetector.detectLeaks(def);
         }
@@ -369,7 +435,20 @@ export class Styles extends RX.Styles {
                 delete def.shadowColor;
             }
 
-            if (isTextStyle) {
+            // Animated shadows use Animated.Value objects for the radius or
+            // color. We need to store these separately.
+            const animatedShadow: { [key: string]: Object } = {};
+            if (typeof radius === 'object') {
+                animatedShadow.shadowRadius = radius;
+            }
+            if (typeof color === 'object') {
+                animatedShadow.shadowColor = color;
+            }
+
+            if (_.keys(animatedShadow).length > 0) {
+                def.animatedShadow = animatedShadow;
+                def.staticShadow = { width, height, radius, color };
+            } else if (isTextStyle) {
                 def.textShadow = width + 'px ' + height + 'px ' + radius + 'px ' + color;
             } else {
                 def.boxShadow = width + 'px ' + height + 'px ' + radius + 'px 0px ' + color;
@@ -485,6 +564,12 @@ export class Styles extends RX.Styles {
             def.width = 'fit-content';
         }
 
+        // The declarations of cached styles are rendered through classes
+        // rather than inline.
+        if (validate) {
+            AtomicCss.registerStyle(def);
+        }
+
         return AppConfig.isDevelopmentMode() ? Object.freeze(def) : def;
     }
 }
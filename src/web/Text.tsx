@@ -14,19 +14,15 @@ import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { Text as TextBase, Types } from '../common/Interfaces';
 
 import AccessibilityUtil from './AccessibilityUtil';
+import AtomicCss from './utils/AtomicCss';
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
 import Styles from './Styles';
 
 // Adding a CSS rule to display non-selectable texts. Those texts
 // will be displayed as pseudo elements to prevent them from being copied
 // to clipboard. It's not possible to style pseudo elements with inline
 // styles, so, we're dynamically creating a <style> tag with the rule.
-if (typeof document !== 'undefined') {
-    const textAsPseudoElement = '[data-text-as-pseudo-element]::before { content: attr(data-text-as-pseudo-element); }';
-    const style = document.createElement('style');
-    style.type = 'text/css';
-    style.appendChild(document.createTextNode(textAsPseudoElement));
-    document.head.appendChild(style);
-}
+GlobalStyleSheets.install('text', '[data-text-as-pseudo-element]::before { content: attr(data-text-as-pseudo-element); }');
 
 // Cast to any to allow merging of web and RX styles
 const _styles = {
@@ -50,6 +46,9 @@ const _styles = {
     } as any
 };
 
+AtomicCss.registerStyle(_styles.defaultStyle);
+AtomicCss.registerStyle(_styles.ellipsis);
+
 export interface TextContext {
     isRxParentAText: boolean;
     focusArbitrator?: FocusArbitratorProvider;
@@ -82,13 +81,14 @@ export class Text extends TextBase {
         }
 
         const isAriaHidden = AccessibilityUtil.isHidden(this.props.importantForAccessibility);
+        const { className, style } = AtomicCss.getClassNameAndStyle(this._getStyles() as any, this.props.className);
 
         if (this.props.selectable || typeof this.props.children !== 'string') {
             return (
                 <div
                     ref={ this._onMount }
-                    className={ this.props.className }
-                    style={ this._getStyles() as any }
+                    className={ className }
+                    style={ style }
                     aria-hidden={ isAriaHidden }
                     onClick={ this.props.onPress }
                     id={ this.props.id }
@@ -105,8 +105,8 @@ export class Text extends TextBase {
             return (
                 <div
                     ref={ this._onMount }
-                    style={ this._getStyles() as any }
-                    className={ this.props.className }
+                    style={ style }
+                    className={ className }
                     aria-hidden={ isAriaHidden }
                     onClick={ this.props.onPress }
                     onContextMenu={ this.props.onContextMenu }
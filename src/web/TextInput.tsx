@@ -13,6 +13,7 @@ import * as React from 'react';
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { Types } from '../common/Interfaces';
 
+import AtomicCss from './utils/AtomicCss';
 import { applyFocusableComponentMixin } from './utils/FocusManager';
 import { isEmpty } from './utils/lodashMini';
 import Styles from './Styles';
@@ -43,6 +44,8 @@ const _styles = {
     } as any
 };
 
+AtomicCss.registerStyle(_styles.defaultStyle);
+
 export interface TextInputContext {
     focusArbitrator?: FocusArbitratorProvider;
 }
@@ -217,15 +220,16 @@ export class TextInput extends React.Component<Types.TextInputProps, TextInputSt
         const editable = (this.props.editable !== undefined ? this.props.editable : true);
         const spellCheck = (this.props.spellCheck !== undefined ? this.props.spellCheck : this.props.autoCorrect);
 
-        const className = this.props.placeholderTextColor !== undefined ?
+        const placeholderClassName = this.props.placeholderTextColor !== undefined ?
             TextInputPlaceholderSupport.getClassName(this.props.placeholderTextColor) : undefined;
+        const { className, style } = AtomicCss.getClassNameAndStyle(combinedStyles, placeholderClassName);
 
         // Use a textarea for multi-line and a regular input for single-line.
         if (this.props.multiline) {
             return (
                 <textarea
                     ref={ this._onMount }
-                    style={ combinedStyles }
+                    style={ style }
                     value={ this.state.inputValue }
                     title={ this.props.title }
                     tabIndex={ this.props.tabIndex }
@@ -258,7 +262,7 @@ export class TextInput extends React.Component<Types.TextInputProps, TextInputSt
             let input = (
                 <input
                     ref={ this._onMount }
-                    style={ combinedStyles }
+                    style={ style }
                     value={ this.state.inputValue }
                     title={ this.props.title }
                     tabIndex={ this.props.tabIndex }
@@ -15,6 +15,7 @@ import * as SyncTasks from 'synctasks';
 import * as RX from '../common/Interfaces';
 
 import FrontLayerViewManager from './FrontLayerViewManager';
+import LayoutAnimator from './animated/LayoutAnimator';
 import ScrollViewConfig from './ScrollViewConfig';
 
 export class UserInterface extends RX.UserInterface {
@@ -85,6 +86,11 @@ export class UserInterface extends RX.UserInterface {
     }
 
     measureWindow(rootViewId?: string): RX.Types.LayoutInfo {
+        // There's no window to measure when rendering on the server.
+        if (typeof window === 'undefined') {
+            return { x: 0, y: 0, width: 0, height: 0 };
+        }
+
         // Mo multi window support, default to main window
         return {
             x: 0,
@@ -153,6 +159,10 @@ export class UserInterface extends RX.UserInterface {
         return this._isNavigatingWithKeyboard;
     }
 
+    configureNextLayoutAnimation(config: RX.Types.LayoutAnimationConfig = {}): void {
+        LayoutAnimator.configureNext(config);
+    }
+
     private _keyboardNavigationStateChanged = (isNavigatingWithKeyboard: boolean) => {
         this._isNavigatingWithKeyboard = isNavigatingWithKeyboard;
     }
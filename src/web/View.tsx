@@ -10,16 +10,21 @@
 import * as PropTypes from 'prop-types';
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
+import { SubscriptionToken } from 'subscribableevent';
 
 import AppConfig from '../common/AppConfig';
 import { FocusArbitratorProvider } from '../common/utils/AutoFocusHelper';
 import { RestrictFocusType } from '../common/utils/FocusManager';
 import * as RX from '../common/Interfaces';
 import { PopupComponent } from '../common/PopupContainerViewBase';
+import ResponsiveStyles from '../common/ResponsiveStyles';
 
 import AccessibilityUtil from './AccessibilityUtil';
 import AnimateListEdits from './listAnimations/AnimateListEdits';
+import AtomicCss from './utils/AtomicCss';
 import { applyFocusableComponentMixin, FocusManager } from './utils/FocusManager';
+import GlobalStyleSheets from './utils/GlobalStyleSheets';
+import LayoutAnimator from './animated/LayoutAnimator';
 import PopupContainerView from './PopupContainerView';
 import restyleForInlineText from './utils/restyleForInlineText';
 import Styles from './Styles';
@@ -64,22 +69,18 @@ const _styles = {
     }
 };
 
-if (typeof document !== 'undefined') {
-    const ignorePointerEvents = '.reactxp-ignore-pointer-events  * { pointer-events: auto; }';
-    const blockPointerEvents = '.reactxp-block-pointer-events * { pointer-events: none !important; }';
-    const head = document.head;
-    const style = document.createElement('style');
-    style.type = 'text/css';
-    style.appendChild(document.createTextNode(ignorePointerEvents));
-    style.appendChild(document.createTextNode(blockPointerEvents));
-    head.appendChild(style);
-}
+AtomicCss.registerStyle(_styles.defaultStyle);
+
+GlobalStyleSheets.install('view',
+    '.reactxp-ignore-pointer-events  * { pointer-events: auto; }' +
+    '.reactxp-block-pointer-events * { pointer-events: none !important; }');
 
 export interface ViewContext {
     isRxParentAText?: boolean;
     focusManager?: FocusManager;
     popupContainer?: PopupContainerView;
     focusArbitrator?: FocusArbitratorProvider;
+    isLayoutAnimated?: boolean;
 }
 
 export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.View> {
@@ -87,7 +88,8 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
         isRxParentAText: PropTypes.bool,
         focusManager: PropTypes.object,
         popupContainer: PropTypes.object,
-        focusArbitrator: PropTypes.object
+        focusArbitrator: PropTypes.object,
+        isLayoutAnimated: PropTypes.bool
     };
     // Context is provided by super - just re-typing here
     context!: ViewContext;
@@ -96,7 +98,8 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
         isRxParentAText: PropTypes.bool.isRequired,
         focusManager: PropTypes.object,
         popupContainer: PropTypes.object,
-        focusArbitrator: PropTypes.object
+        focusArbitrator: PropTypes.object,
+        isLayoutAnimated: PropTypes.bool
     };
 
     private _focusManager: FocusManager | undefined;
@@ -110,8 +113,16 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
     private _resizeDetectorNodes: { grow?: HTMLDivElement; shrink?: HTMLDivElement } = {};
 
     private _popupContainer: PopupContainerView | undefined;
+
+    // Set while the style contains responsive styles.
+    private _windowDimensionsChangedSubscription: SubscriptionToken | undefined;
+    private _matchingBreakpointsKey = '';
     private _popupToken: PopupComponent | undefined;
 
+    // Identifies the view to the layout animator while the view's layout
+    // changes are animated.
+    private _layoutAnimatorViewId: string | undefined;
+
     constructor(props: RX.Types.ViewProps, context?: ViewContext) {
         super(props, context);
 
@@ -250,6 +261,12 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
             childContext.focusArbitrator = this._focusArbitratorProvider;
         }
 
+        // The views within a view whose layout changes are animated are
+        // animated along with it.
+        if (this._isLayoutAnimated()) {
+            childContext.isLayoutAnimated = true;
+        }
+
         return childContext;
     }
 
@@ -320,7 +337,7 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
     }
 
     render() {
-        const combinedStyles = Styles.combine([_styles.defaultStyle, this.props.style]);
+        const combinedStyles = Styles.combine([_styles.defaultStyle, ResponsiveStyles.resolveStyles(this.props.style)]);
         let ariaRole = AccessibilityUtil.accessibilityTraitToString(this.props.accessibilityTraits);
         const tabIndex = this.props.tabIndex;
         const ariaSelected = AccessibilityUtil.accessibilityTraitToAriaSelected(this.props.accessibilityTraits);
@@ -392,6 +409,14 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
             combinedStyles.pointerEvents = 'none';
         }
 
+        // Views that are inlined in text need their width and height in the
+        // inline style.
+        if (!this.context.isRxParentAText) {
+            const classNameAndStyle = AtomicCss.getClassNameAndStyle(combinedStyles, props.className);
+            props.className = classNameAndStyle.className;
+            props.style = classNameAndStyle.style;
+        }
+
         let reactElement: React.ReactElement<any>;
         const childAnimationsEnabled = this.props.animateChildEnter || this.props.animateChildMove || this.props.animateChildLeave;
         if (childAnimationsEnabled) {
@@ -457,6 +482,8 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
 
     componentDidMount() {
         super.componentDidMount();
+        this._updateWindowDimensionsChangedSubscription();
+        this._updateLayoutAnimatorRegistration();
 
         if (this.props.autoFocus) {
             this.requestFocus();
@@ -474,15 +501,70 @@ export class View extends ViewBase<RX.Types.ViewProps, RX.Types.Stateless, RX.Vi
         }
     }
 
+    componentDidUpdate() {
+        super.componentDidUpdate();
+        this._updateWindowDimensionsChangedSubscription();
+        this._updateLayoutAnimatorRegistration();
+    }
+
     componentWillUnmount() {
         super.componentWillUnmount();
         this.disableFocusManager();
 
+        if (this._windowDimensionsChangedSubscription) {
+            this._windowDimensionsChangedSubscription.unsubscribe();
+            this._windowDimensionsChangedSubscription = undefined;
+        }
+
+        if (this._layoutAnimatorViewId) {
+            LayoutAnimator.unregisterView(this._layoutAnimatorViewId);
+            this._layoutAnimatorViewId = undefined;
+        }
+
         if (this._popupToken) {
             this._popupContainer!.unregisterPopupComponent(this._popupToken);
         }
     }
 
+    private _isLayoutAnimated(): boolean {
+        return !!this.props.animateLayoutChanges || !!this.context.isLayoutAnimated;
+    }
+
+    // Only the views whose layout changes are animated are measured by the
+    // layout animator, since measuring them forces the browser to lay out
+    // the page.
+    private _updateLayoutAnimatorRegistration() {
+        const isLayoutAnimated = this._isLayoutAnimated();
+        if (isLayoutAnimated && !this._layoutAnimatorViewId) {
+            this._layoutAnimatorViewId = LayoutAnimator.registerView(this);
+        } else if (!isLayoutAnimated && this._layoutAnimatorViewId) {
+            LayoutAnimator.unregisterView(this._layoutAnimatorViewId);
+            this._layoutAnimatorViewId = undefined;
+        }
+    }
+
+    // Views with responsive styles re-render when the window is resized past
+    // one of the breakpoints.
+    private _updateWindowDimensionsChangedSubscription() {
+        this._matchingBreakpointsKey = ResponsiveStyles.getMatchingBreakpointsKey(this.props.style);
+
+        if (ResponsiveStyles.containsResponsiveStyle(this.props.style)) {
+            if (!this._windowDimensionsChangedSubscription) {
+                this._windowDimensionsChangedSubscription = ResponsiveStyles.windowDimensionsChangedEvent.subscribe(
+                    this._onWindowDimensionsChanged);
+            }
+        } else if (this._windowDimensionsChangedSubscription) {
+            this._windowDimensionsChangedSubscription.unsubscribe();
+            this._windowDimensionsChangedSubscription = undefined;
+        }
+    }
+
+    private _onWindowDimensionsChanged = () => {
+        if (ResponsiveStyles.getMatchingBreakpointsKey(this.props.style) !== this._matchingBreakpointsKey) {
+            this.forceUpdate();
+        }
+    }
+
     blur() {
         const el = this._getContainer();
         if (el) {
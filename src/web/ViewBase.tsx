@@ -122,10 +122,13 @@ export abstract class ViewBase<P extends RX.Types.ViewPropsShared<C>, S, C exten
 
         const newX = container.offsetLeft;
         const newY = container.offsetTop;
-        const marginTop = !container.style.marginTop ? 0 : parseInt(container.style.marginTop, 10) || 0;
-        const marginBottom = !container.style.marginBottom ? 0 : parseInt(container.style.marginBottom, 10) || 0;
-        const marginRight = !container.style.marginRight ? 0 : parseInt(container.style.marginRight, 10) || 0;
-        const marginLeft = !container.style.marginLeft ? 0 : parseInt(container.style.marginLeft, 10) || 0;
+        // The margins may be applied through classes, so they're read from
+        // the computed style.
+        const computedStyle = window.getComputedStyle(container);
+        const marginTop = !computedStyle.marginTop ? 0 : parseInt(computedStyle.marginTop, 10) || 0;
+        const marginBottom = !computedStyle.marginBottom ? 0 : parseInt(computedStyle.marginBottom, 10) || 0;
+        const marginRight = !computedStyle.marginRight ? 0 : parseInt(computedStyle.marginRight, 10) || 0;
+        const marginLeft = !computedStyle.marginLeft ? 0 : parseInt(computedStyle.marginLeft, 10) || 0;
         const newWidth = container.offsetWidth + marginRight + marginLeft;
         const newHeight = container.offsetHeight + marginTop + marginBottom;
 
@@ -0,0 +1,313 @@
+/**
+ * FrameAnimation.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Drives animations that can't be expressed as a CSS transition (such as
+ * springs and decays) by computing a new value on every animation frame.
+ */
+
+import { KeyframeSegment } from '../../common/AnimatedKeyframes';
+import Timers from '../../common/utils/Timers';
+
+export interface FrameState {
+    value: number;
+
+    // Units per second. Undefined if the animation isn't physics-based, in
+    // which case an interrupting spring doesn't carry its velocity over.
+    velocity?: number;
+    isDone: boolean;
+}
+
+// Computes the animated value for a point in time. Solvers may be stateful
+// and, unless the animation is seeked, are asked for monotonically
+// increasing times.
+export interface FrameSolver {
+    getState(elapsedMs: number): FrameState;
+}
+
+export interface SpringSolverConfig {
+    fromValue: number;
+    toValue: number;
+    stiffness: number;
+    damping: number;
+    mass: number;
+
+    // Units per second
+    velocity: number;
+    overshootClamping: boolean;
+    restDisplacementThreshold: number;
+    restSpeedThreshold: number;
+}
+
+// Uses the analytic solution of a damped harmonic oscillator, which is
+// the same model the React Native spring animation uses.
+export class SpringSolver implements FrameSolver {
+    private _config: SpringSolverConfig;
+
+    constructor(config: SpringSolverConfig) {
+        this._config = config;
+    }
+
+    getState(elapsedMs: number): FrameState {
+        const { fromValue, toValue, stiffness, damping, mass } = this._config;
+        const t = elapsedMs / 1000;
+
+        const v0 = -this._config.velocity;
+        const x0 = toValue - fromValue;
+        const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+        const omega0 = Math.sqrt(stiffness / mass);
+
+        let value: number;
+        let velocity: number;
+
+        if (zeta < 1) {
+            // Under-damped
+            const omega1 = omega0 * Math.sqrt(1 - zeta * zeta);
+            const envelope = Math.exp(-zeta * omega0 * t);
+            const sin = Math.sin(omega1 * t);
+            const cos = Math.cos(omega1 * t);
+            const amplitude = (v0 + zeta * omega0 * x0) / omega1;
+
+            value = toValue - envelope * (amplitude * sin + x0 * cos);
+            velocity = zeta * omega0 * envelope * (amplitude * sin + x0 * cos) -
+                envelope * (cos * (v0 + zeta * omega0 * x0) - omega1 * x0 * sin);
+        } else {
+            // Critically damped (or over-damped, which is approximated as such)
+            const envelope = Math.exp(-omega0 * t);
+
+            value = toValue - envelope * (x0 + (v0 + omega0 * x0) * t);
+            velocity = envelope * (v0 * (t * omega0 - 1) + t * x0 * omega0 * omega0);
+        }
+
+        const isOvershooting = this._config.overshootClamping && stiffness !== 0 &&
+            (fromValue < toValue ? value > toValue : value < toValue);
+        const isAtRest = Math.abs(velocity) <= this._config.restSpeedThreshold &&
+            (stiffness === 0 || Math.abs(toValue - value) <= this._config.restDisplacementThreshold);
+        const isDone = isOvershooting || isAtRest;
+
+        if (isDone && stiffness !== 0) {
+            value = toValue;
+            velocity = 0;
+        }
+
+        return { value, velocity, isDone };
+    }
+}
+
+export interface DecaySolverConfig {
+    fromValue: number;
+
+    // Units per millisecond
+    velocity: number;
+    deceleration: number;
+}
+
+// The animation ends once a frame moves the value by less than this.
+const _decayRestDelta = 0.1;
+
+export class DecaySolver implements FrameSolver {
+    private _config: DecaySolverConfig;
+    private _lastValue: number;
+
+    constructor(config: DecaySolverConfig) {
+        this._config = config;
+        this._lastValue = config.fromValue;
+    }
+
+    getState(elapsedMs: number): FrameState {
+        const { fromValue, velocity, deceleration } = this._config;
+        const friction = 1 - deceleration;
+        const decay = Math.exp(-friction * elapsedMs);
+
+        const value = fromValue + velocity / friction * (1 - decay);
+        const isDone = elapsedMs > 0 && Math.abs(value - this._lastValue) < _decayRestDelta;
+        this._lastValue = value;
+
+        return { value, velocity: isDone ? 0 : velocity * decay * 1000, isDone };
+    }
+}
+
+// Steps through the segments of a keyframe animation. The solver is
+// stateless, so keyframe animations can be seeked.
+export class KeyframeSolver implements FrameSolver {
+    private _fromValue: number;
+    private _segments: KeyframeSegment[];
+
+    constructor(fromValue: number, segments: KeyframeSegment[]) {
+        this._fromValue = fromValue;
+        this._segments = segments;
+    }
+
+    getState(elapsedMs: number): FrameState {
+        let segmentStart = 0;
+        let segmentFromValue = this._fromValue;
+
+        for (const segment of this._segments) {
+            if (elapsedMs < segmentStart + segment.duration) {
+                const progress = Math.max(0, elapsedMs - segmentStart) / segment.duration;
+                const easedProgress = segment.easing ? segment.easing.function(progress) : progress;
+                return {
+                    value: segmentFromValue + (segment.toValue - segmentFromValue) * easedProgress,
+                    isDone: false
+                };
+            }
+
+            segmentStart += segment.duration;
+            segmentFromValue = segment.toValue;
+        }
+
+        return { value: segmentFromValue, isDone: true };
+    }
+}
+
+// Runs a solver on every animation frame until it comes to rest or is stopped.
+export class FrameAnimation {
+    private _solver: FrameSolver;
+    private _onFrame: (value: number) => void;
+    private _onEnd: (finished: boolean) => void;
+    private _initialDelay = 0;
+    private _delay = 0;
+    private _delayStartTime = 0;
+    private _delayTimer: number | undefined;
+    private _animationFrame: number | undefined;
+    private _startTime: number | undefined;
+    private _elapsed = 0;
+    private _lastState: FrameState | undefined;
+    private _isRunning = false;
+    private _isPaused = false;
+
+    constructor(solver: FrameSolver, onFrame: (value: number) => void, onEnd: (finished: boolean) => void) {
+        this._solver = solver;
+        this._onFrame = onFrame;
+        this._onEnd = onEnd;
+    }
+
+    start(delay: number): void {
+        this._isRunning = true;
+        this._initialDelay = delay;
+        this._delay = delay;
+        this._startDelay();
+    }
+
+    // Stops the animation, leaving the value where it is.
+    stop(): void {
+        if (!this._isRunning) {
+            return;
+        }
+
+        this._cancelPendingFrame();
+        this._end(false);
+    }
+
+    pause(): void {
+        if (!this._isRunning || this._isPaused) {
+            return;
+        }
+
+        this._isPaused = true;
+        if (this._delayTimer !== undefined) {
+            this._delay = Math.max(0, this._delay - (Date.now() - this._delayStartTime));
+        }
+        this._cancelPendingFrame();
+
+        // The next frame after resuming continues from the last one.
+        this._startTime = undefined;
+    }
+
+    resume(): void {
+        if (!this._isRunning || !this._isPaused) {
+            return;
+        }
+
+        this._isPaused = false;
+        this._startDelay();
+    }
+
+    // Jumps to a point in time (in milliseconds, including the delay). Only
+    // meaningful for stateless solvers.
+    seek(time: number): void {
+        if (!this._isRunning) {
+            return;
+        }
+
+        this._delay = Math.max(0, this._initialDelay - time);
+        this._elapsed = Math.max(0, time - this._initialDelay);
+        this._startTime = undefined;
+        if (!this._isPaused) {
+            this._cancelPendingFrame();
+            this._startDelay();
+        }
+
+        const state = this._solver.getState(this._elapsed);
+        this._lastState = state;
+        this._onFrame(state.value);
+    }
+
+    // Returns the velocity (in units per second) as of the last frame, if
+    // the solver reports one.
+    getVelocity(): number | undefined {
+        return this._lastState ? this._lastState.velocity : undefined;
+    }
+
+    private _startDelay() {
+        if (this._delay > 0) {
+            this._delayStartTime = Date.now();
+            this._delayTimer = Timers.setTimeout(() => {
+                this._delayTimer = undefined;
+                this._delay = 0;
+                this._requestFrame();
+            }, this._delay);
+        } else {
+            this._requestFrame();
+        }
+    }
+
+    private _cancelPendingFrame() {
+        if (this._delayTimer !== undefined) {
+            Timers.clearTimeout(this._delayTimer);
+            this._delayTimer = undefined;
+        }
+
+        if (this._animationFrame !== undefined) {
+            window.cancelAnimationFrame(this._animationFrame);
+            this._animationFrame = undefined;
+        }
+    }
+
+    private _requestFrame() {
+        this._animationFrame = window.requestAnimationFrame(this._onAnimationFrame);
+    }
+
+    private _onAnimationFrame = (timestamp: number) => {
+        this._animationFrame = undefined;
+
+        if (this._startTime === undefined) {
+            this._startTime = timestamp - this._elapsed;
+        }
+
+        this._elapsed = timestamp - this._startTime;
+        const state = this._solver.getState(this._elapsed);
+        this._lastState = state;
+        this._onFrame(state.value);
+
+        // The frame callback may have stopped the animation.
+        if (!this._isRunning) {
+            return;
+        }
+
+        if (state.isDone) {
+            this._end(true);
+        } else {
+            this._requestFrame();
+        }
+    }
+
+    private _end(finished: boolean) {
+        this._isRunning = false;
+        this._onEnd(finished);
+    }
+}
+
+export default FrameAnimation;
@@ -0,0 +1,250 @@
+/**
+ * LayoutAnimator.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Animates the views whose layout is changed by the next update. The views
+ * are measured before and after the update, and each one that moved or was
+ * resized is transformed so it initially appears where it was before. The
+ * transform is then transitioned away (a technique known as FLIP).
+ */
+
+import * as React from 'react';
+import * as ReactDOM from 'react-dom';
+
+import Accessibility from '../Accessibility';
+import * as RX from '../../common/Interfaces';
+
+import executeTransition from './executeTransition';
+import * as _ from './../utils/lodashMini';
+
+interface ViewLayout {
+    element: HTMLElement;
+    rect: ClientRect;
+}
+
+const _defaultDuration = 300;
+
+// Changes smaller than these aren't animated.
+const _minTranslation = 0.5;
+const _minScaleChange = 0.01;
+
+export class LayoutAnimator {
+    private _views: { [viewId: string]: React.Component<any, any> } = {};
+    private _lastViewId = 0;
+
+    private _pendingConfig: RX.Types.LayoutAnimationConfig | undefined;
+    private _initialLayouts: { [viewId: string]: ViewLayout } = {};
+
+    // Views that were mounted after the animation was configured.
+    private _addedViewIds: string[] = [];
+
+    // Views register themselves when they're mounted. Returns the id to
+    // unregister the view with.
+    registerView(view: React.Component<any, any>): string {
+        const viewId = String(++this._lastViewId);
+        this._views[viewId] = view;
+
+        if (this._pendingConfig) {
+            this._addedViewIds.push(viewId);
+        }
+
+        return viewId;
+    }
+
+    unregisterView(viewId: string): void {
+        delete this._views[viewId];
+    }
+
+    configureNext(config: RX.Types.LayoutAnimationConfig): void {
+        // If an animation was already configured for the next update, the
+        // views have already been measured. The last configuration wins.
+        const isPending = !!this._pendingConfig;
+        this._pendingConfig = config;
+        if (isPending) {
+            return;
+        }
+
+        this._initialLayouts = this._measureViews();
+        this._addedViewIds = [];
+
+        // React commits updates before the next frame is rendered, so this is
+        // where the views have their new layout but haven't been painted yet.
+        window.requestAnimationFrame(this._onUpdated);
+    }
+
+    private _onUpdated = () => {
+        const config = this._pendingConfig!;
+        const initialLayouts = this._initialLayouts;
+        const addedViewIds = this._addedViewIds;
+        this._pendingConfig = undefined;
+        this._initialLayouts = {};
+        this._addedViewIds = [];
+
+        let pendingCount = 1;
+        const animationCompleted = () => {
+            pendingCount--;
+            if (pendingCount === 0 && config.onEnd) {
+                config.onEnd();
+            }
+        };
+
+        // Reduced motion may skip the animation altogether.
+        const duration = Accessibility.adjustAnimationDuration(
+            config.duration !== undefined ? config.duration : _defaultDuration);
+
+        if (duration > 0) {
+            const timing = LayoutAnimator._getTiming(config.type);
+            const finalLayouts = this._measureViews();
+            const elements = _.map(finalLayouts, layout => layout.element);
+            const viewIds = _.keys(finalLayouts);
+
+            _.each(finalLayouts, (finalLayout, viewId) => {
+                const element = finalLayout.element;
+                const initialLayout = initialLayouts[viewId];
+
+                // Transforms are applied in the coordinate space of the closest
+                // view that contains this one, so they're relative to it.
+                const parentIndex = LayoutAnimator._findParentIndex(element, elements);
+                const parentViewId = parentIndex >= 0 ? viewIds[parentIndex] : undefined;
+
+                if (initialLayout && initialLayout.element === element) {
+                    const parentLayouts = parentViewId && initialLayouts[parentViewId] ?
+                        [initialLayouts[parentViewId], finalLayouts[parentViewId]] : undefined;
+
+                    const transform = LayoutAnimator._getInvertingTransform(initialLayout, finalLayout, parentLayouts);
+                    if (transform) {
+                        const originalTransform = element.style.transform || '';
+                        const originalTransformOrigin = element.style.transformOrigin || '';
+
+                        // The view's own transform may be applied through a class.
+                        const computedTransform = window.getComputedStyle(element).transform;
+                        const viewTransform = originalTransform ||
+                            (computedTransform && computedTransform !== 'none' ? computedTransform : '');
+
+                        pendingCount++;
+                        element.style.transformOrigin = '0 0';
+                        executeTransition(element, [{
+                            property: 'transform',
+                            from: transform + ' ' + viewTransform,
+                            to: originalTransform,
+                            duration,
+                            timing
+                        }], () => {
+                            element.style.transformOrigin = originalTransformOrigin;
+                            animationCompleted();
+                        });
+                    }
+                } else if (config.animateEnter !== false && addedViewIds.indexOf(viewId) >= 0 &&
+                        (!parentViewId || addedViewIds.indexOf(parentViewId) < 0)) {
+                    // Only the outermost added views are faded in. Their
+                    // contents fade in along with them.
+                    pendingCount++;
+                    executeTransition(element, [{
+                        property: 'opacity',
+                        from: 0,
+                        to: element.style.opacity || '',
+                        duration,
+                        timing: 'linear'
+                    }], animationCompleted);
+                }
+            });
+        }
+
+        animationCompleted();
+    }
+
+    private _measureViews(): { [viewId: string]: ViewLayout } {
+        const layouts: { [viewId: string]: ViewLayout } = {};
+
+        _.each(this._views, (view, viewId) => {
+            let element: HTMLElement | null = null;
+            try {
+                element = ReactDOM.findDOMNode(view) as HTMLElement | null;
+            } catch {
+                // Exception probably due to race condition in unmounting. Ignore.
+            }
+
+            if (element) {
+                layouts[viewId] = { element, rect: element.getBoundingClientRect() };
+            }
+        });
+
+        return layouts;
+    }
+
+    // Returns the transform that makes the view appear the way it was laid
+    // out initially, or undefined if its layout didn't change.
+    private static _getInvertingTransform(initialLayout: ViewLayout, finalLayout: ViewLayout,
+            parentLayouts: ViewLayout[] | undefined): string | undefined {
+
+        const initial = initialLayout.rect;
+        const final = finalLayout.rect;
+
+        let parentScaleX = 1;
+        let parentScaleY = 1;
+        let translateX = initial.left - final.left;
+        let translateY = initial.top - final.top;
+
+        if (parentLayouts) {
+            // While the animation starts, the parent appears the way it was
+            // laid out initially, scaled by its own inverting transform.
+            const parentInitial = parentLayouts[0].rect;
+            const parentFinal = parentLayouts[1].rect;
+            parentScaleX = LayoutAnimator._getScale(parentInitial.width, parentFinal.width);
+            parentScaleY = LayoutAnimator._getScale(parentInitial.height, parentFinal.height);
+            translateX = (initial.left - parentInitial.left) / parentScaleX - (final.left - parentFinal.left);
+            translateY = (initial.top - parentInitial.top) / parentScaleY - (final.top - parentFinal.top);
+        }
+
+        const scaleX = LayoutAnimator._getScale(initial.width, final.width) / parentScaleX;
+        const scaleY = LayoutAnimator._getScale(initial.height, final.height) / parentScaleY;
+
+        if (Math.abs(translateX) < _minTranslation && Math.abs(translateY) < _minTranslation &&
+                Math.abs(scaleX - 1) < _minScaleChange && Math.abs(scaleY - 1) < _minScaleChange) {
+            return undefined;
+        }
+
+        return 'translate(' + translateX + 'px, ' + translateY + 'px) scale(' + scaleX + ', ' + scaleY + ')';
+    }
+
+    private static _getScale(initialSize: number, finalSize: number): number {
+        // Views that were or are collapsed can't be scaled from or to their size.
+        return initialSize > 0 && finalSize > 0 ? initialSize / finalSize : 1;
+    }
+
+    private static _findParentIndex(element: HTMLElement, elements: HTMLElement[]): number {
+        let parent = element.parentElement;
+        while (parent) {
+            const index = elements.indexOf(parent);
+            if (index >= 0) {
+                return index;
+            }
+            parent = parent.parentElement;
+        }
+        return -1;
+    }
+
+    private static _getTiming(type: RX.Types.LayoutAnimationType | undefined): string {
+        switch (type) {
+            case RX.Types.LayoutAnimationType.EaseIn:
+                return 'ease-in';
+
+            case RX.Types.LayoutAnimationType.EaseOut:
+                return 'ease-out';
+
+            case RX.Types.LayoutAnimationType.Linear:
+                return 'linear';
+
+            case RX.Types.LayoutAnimationType.Spring:
+                // Approximates a spring by overshooting the final layout.
+                return 'cubic-bezier(0.175, 0.885, 0.32, 1.275)';
+
+            default:
+                return 'ease-in-out';
+        }
+    }
+}
+
+export default new LayoutAnimator();
@@ -0,0 +1,132 @@
+/**
+ * WebAnimation.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Applies a set of transitions to a DOM element using the Web Animations API.
+ * Unlike CSS transitions, these can be paused, seeked and reversed, and their
+ * progress can be queried while they run.
+ */
+
+import { TransitionSpec } from './executeTransition';
+import * as _ from './../utils/lodashMini';
+
+export class WebAnimation {
+    private _element: HTMLElement;
+    private _transitions: TransitionSpec[];
+    private _animations: Animation[] = [];
+    private _done: () => void;
+    private _isReversed: boolean[] = [];
+    private _isComplete = false;
+
+    // Calls `done` when all transitions have finished (but not if they're cancelled).
+    constructor(element: HTMLElement, transitions: TransitionSpec[], done: () => void) {
+        this._element = element;
+        this._transitions = transitions;
+        this._done = done;
+
+        _.each(transitions, transition => {
+            const keyframeProperty = WebAnimation._toKeyframeProperty(transition.property);
+            const animation = element.animate([
+                { [keyframeProperty]: transition.from },
+                { [keyframeProperty]: transition.to }
+            ], {
+                duration: transition.duration,
+                delay: transition.delay || 0,
+                easing: transition.timing || 'linear',
+                fill: 'both'
+            });
+
+            animation.onfinish = this._onAnimationFinish;
+            this._animations.push(animation);
+            this._isReversed.push(false);
+
+            // The animation overrides the inline style while it runs. Once it's
+            // finished or cancelled, the inline style takes effect again.
+            (element.style as any)[transition.property] = transition.to;
+        });
+    }
+
+    static isSupported(): boolean {
+        return typeof Element !== 'undefined' && typeof Element.prototype.animate === 'function';
+    }
+
+    // The following methods control only the transitions of the specified
+    // properties, leaving the others running.
+    pause(properties: string[]): void {
+        this._forEachAnimation(properties, animation => {
+            animation.pause();
+        });
+    }
+
+    resume(properties: string[]): void {
+        this._forEachAnimation(properties, animation => {
+            animation.play();
+        });
+    }
+
+    seek(properties: string[], time: number): void {
+        this._forEachAnimation(properties, animation => {
+            animation.currentTime = time;
+        });
+    }
+
+    reverse(properties: string[]): void {
+        this._forEachAnimation(properties, (animation, index) => {
+            this._isReversed[index] = !this._isReversed[index];
+            animation.reverse();
+        });
+    }
+
+    // Stops the transitions, leaving the inline styles at their "to" values.
+    cancel(): void {
+        this._isComplete = true;
+        _.each(this._animations, animation => {
+            animation.onfinish = null;
+            animation.cancel();
+        });
+    }
+
+    // Returns the eased progress (0 to 1) of the transition of the property.
+    getProgress(property: string): number {
+        const index = _.findIndex(this._transitions, transition => transition.property === property);
+        const effect = index >= 0 ? this._animations[index].effect : null;
+        if (!effect) {
+            return 0;
+        }
+
+        const progress = effect.getComputedTiming().progress;
+        return progress !== undefined && progress !== null ? progress : 0;
+    }
+
+    private _onAnimationFinish = () => {
+        if (this._isComplete || _.findIndex(this._animations, animation => animation.playState !== 'finished') >= 0) {
+            return;
+        }
+
+        // Leave the element the way the transitions left it before removing
+        // the animations.
+        _.each(this._transitions, (transition, index) => {
+            (this._element.style as any)[transition.property] = this._isReversed[index] ? transition.from : transition.to;
+        });
+
+        this.cancel();
+        this._done();
+    }
+
+    private _forEachAnimation(properties: string[], callback: (animation: Animation, index: number) => void) {
+        _.each(this._transitions, (transition, index) => {
+            if (properties.indexOf(transition.property) >= 0) {
+                callback(this._animations[index], index);
+            }
+        });
+    }
+
+    // Keyframes refer to properties by their camel-cased names.
+    private static _toKeyframeProperty(property: string): string {
+        return property.replace(/-([a-z])/g, (match, letter: string) => letter.toUpperCase());
+    }
+}
+
+export default WebAnimation;
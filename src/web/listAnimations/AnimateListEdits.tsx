@@ -11,6 +11,7 @@
 import * as React from 'react';
 import * as ReactDOM from 'react-dom';
 
+import Accessibility from '../Accessibility';
 import executeTransition from '../animated/executeTransition';
 import { Types } from '../../common/Interfaces';
 
@@ -33,6 +34,8 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
             }
         };
 
+        // The animations are staggered, unless reduced motion shortens them.
+        const staggerDelay = Accessibility.adjustAnimationDuration(75);
         let delay = 0;
         if (edits.removed.length > 0 && this.props.animateChildLeave) {
             edits.removed.forEach(function(move) {
@@ -47,7 +50,7 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
                             from: 1,
                             to: 0,
                             delay: delay,
-                            duration: 150,
+                            duration: Accessibility.adjustAnimationDuration(150),
                             timing: 'linear'
                         }], animationCompleted);
                     }
@@ -55,7 +58,7 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
                     // Exception probably due to race condition in unmounting. Ignore.
                 }
             });
-            delay += 75;
+            delay += staggerDelay;
         }
 
         if (edits.moved.length > 0 && this.props.animateChildMove) {
@@ -70,7 +73,7 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
                             from: 'translateY(' + -move.topDelta + 'px)',
                             to: '',
                             delay: delay,
-                            duration: 300,
+                            duration: Accessibility.adjustAnimationDuration(300),
                             timing: 'ease-out'
                         }], animationCompleted);
                     }
@@ -79,7 +82,7 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
                 }
             });
         }
-        delay += 75;
+        delay += staggerDelay;
 
         if (edits.added.length > 0 && this.props.animateChildEnter) {
             edits.added.forEach(function(move) {
@@ -93,7 +96,7 @@ export class AnimateListEdits extends React.Component<AnimateListEditsProps, Typ
                             from: 0,
                             to: 1,
                             delay: delay,
-                            duration: 150,
+                            duration: Accessibility.adjustAnimationDuration(150),
                             timing: 'linear'
                         }], animationCompleted);
                     }
@@ -0,0 +1,208 @@
+/**
+ * IndexedDbBackend.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Web storage backend built on IndexedDB. Unlike localStorage, reads and
+ * writes don't block the main thread and batches of writes are atomic.
+ * If the database can't be opened, all operations are served from memory.
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from '../../common/Interfaces';
+import { getStoredSize } from '../../common/utils/StorageUtils';
+
+import { MemoryStorageBackend } from './MemoryStorageBackend';
+import { createStorageError, estimateStorage, StorageBackend } from './StorageBackend';
+
+const _databaseName = 'ReactXPStorage';
+const _databaseVersion = 1;
+const _objectStoreName = 'items';
+
+export class IndexedDbBackend implements StorageBackend {
+    private _databasePromise: SyncTasks.Promise<IDBDatabase | undefined> | undefined;
+    private _fallbackBackend: MemoryStorageBackend | undefined;
+
+    static isAvailable(): boolean {
+        try {
+            return typeof window !== 'undefined' && !!window.indexedDB;
+        } catch (e) {
+            // Some browsers throw when indexedDB is accessed with storage disabled.
+            return false;
+        }
+    }
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().getAllKeys();
+            }
+
+            const keys: string[] = [];
+            return this._runTransaction(database, 'readonly', store => {
+                const request = store.openCursor();
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (cursor) {
+                        keys.push(String(cursor.key));
+                        cursor.continue();
+                    }
+                };
+            }).then(() => keys);
+        });
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().multiGet(keys);
+            }
+
+            const items: RX.Types.StorageItemsResult = {};
+            return this._runTransaction(database, 'readonly', store => {
+                keys.forEach(key => {
+                    const request = store.get(key);
+                    request.onsuccess = () => {
+                        items[key] = typeof request.result === 'string' ? request.result : undefined;
+                    };
+                });
+            }).then(() => items);
+        });
+    }
+
+    commit(itemsToSet: RX.Types.StorageItems, keysToRemove: string[]): SyncTasks.Promise<void> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().commit(itemsToSet, keysToRemove);
+            }
+
+            return this._runTransaction(database, 'readwrite', store => {
+                Object.keys(itemsToSet).forEach(key => {
+                    store.put(itemsToSet[key], key);
+                });
+                keysToRemove.forEach(key => {
+                    store.delete(key);
+                });
+            });
+        });
+    }
+
+    clear(): SyncTasks.Promise<void> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().clear();
+            }
+
+            return this._runTransaction(database, 'readwrite', store => {
+                store.clear();
+            });
+        });
+    }
+
+    getUsage(): SyncTasks.Promise<number> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().getUsage();
+            }
+
+            return estimateStorage().then(estimate => {
+                if (estimate && estimate.usage !== undefined) {
+                    return estimate.usage;
+                }
+
+                // Fall back to adding up the size of the stored items.
+                return this.getAllKeys().then(keys => this.multiGet(keys)).then(items => getStoredSize(items));
+            });
+        });
+    }
+
+    getQuota(): SyncTasks.Promise<number | undefined> {
+        return this._getDatabase().then(database => {
+            if (!database) {
+                return this._getFallbackBackend().getQuota();
+            }
+
+            return estimateStorage().then(estimate => estimate ? estimate.quota : undefined);
+        });
+    }
+
+    private _getDatabase(): SyncTasks.Promise<IDBDatabase | undefined> {
+        if (!this._databasePromise) {
+            const deferred = SyncTasks.Defer<IDBDatabase | undefined>();
+            this._databasePromise = deferred.promise();
+
+            let request: IDBOpenDBRequest;
+            try {
+                request = window.indexedDB.open(_databaseName, _databaseVersion);
+            } catch (e) {
+                deferred.resolve(undefined);
+                return this._databasePromise;
+            }
+
+            request.onupgradeneeded = () => {
+                const database = request.result;
+                if (!database.objectStoreNames.contains(_objectStoreName)) {
+                    database.createObjectStore(_objectStoreName);
+                }
+            };
+
+            request.onsuccess = () => {
+                deferred.resolve(request.result);
+            };
+
+            request.onerror = (e: Event) => {
+                // Opening fails in private browsing mode on some browsers.
+                // Prevent the error from being reported as uncaught.
+                e.preventDefault();
+                deferred.resolve(undefined);
+            };
+        }
+
+        return this._databasePromise;
+    }
+
+    private _getFallbackBackend(): MemoryStorageBackend {
+        if (!this._fallbackBackend) {
+            this._fallbackBackend = new MemoryStorageBackend();
+        }
+        return this._fallbackBackend;
+    }
+
+    // Issues the requests within a single transaction and resolves when the
+    // transaction completes. If any request fails, the entire transaction is
+    // aborted and none of its writes are applied.
+    private _runTransaction(database: IDBDatabase, mode: IDBTransactionMode,
+            issueRequests: (store: IDBObjectStore) => void): SyncTasks.Promise<void> {
+        const deferred = SyncTasks.Defer<void>();
+
+        let transaction: IDBTransaction;
+        try {
+            transaction = database.transaction(_objectStoreName, mode);
+        } catch (e) {
+            return deferred.reject(createStorageError(e)).promise();
+        }
+
+        try {
+            issueRequests(transaction.objectStore(_objectStoreName));
+        } catch (e) {
+            // Don't commit the requests that were issued before the failure.
+            transaction.abort();
+            return deferred.reject(createStorageError(e)).promise();
+        }
+
+        transaction.oncomplete = () => {
+            deferred.resolve(void 0);
+        };
+
+        // A failed request aborts the transaction, which also happens when the
+        // quota is exceeded at commit time. Either way, the error is recorded
+        // on the transaction.
+        transaction.onabort = () => {
+            deferred.reject(createStorageError(transaction.error));
+        };
+
+        return deferred.promise();
+    }
+}
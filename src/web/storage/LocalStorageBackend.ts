@@ -0,0 +1,113 @@
+/**
+ * LocalStorageBackend.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Default web storage backend, built on window.localStorage.
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from '../../common/Interfaces';
+import { getStoredSize } from '../../common/utils/StorageUtils';
+
+import { createStorageError, StorageBackend } from './StorageBackend';
+
+// Browsers don't expose the localStorage quota, but all major
+// browsers allow at least this much per origin.
+const _localStorageQuota = 5 * 1024 * 1024;
+
+export class LocalStorageBackend implements StorageBackend {
+    // localStorage isn't available when rendering on the server.
+    static isAvailable(): boolean {
+        try {
+            return typeof window !== 'undefined' && !!window.localStorage;
+        } catch (e) {
+            // Some browsers throw when localStorage is accessed with storage disabled.
+            return false;
+        }
+    }
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        return SyncTasks.Resolved(this._getKeys());
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        return SyncTasks.Resolved(this._getItems(keys));
+    }
+
+    commit(itemsToSet: RX.Types.StorageItems, keysToRemove: string[]): SyncTasks.Promise<void> {
+        const keysToSet = Object.keys(itemsToSet);
+
+        // localStorage has no notion of transactions, so remember the previous
+        // values and restore them if one of the writes fails.
+        const previousItems = this._getItems(keysToSet.concat(keysToRemove));
+        let currentKey: string | undefined;
+
+        try {
+            keysToSet.forEach(key => {
+                currentKey = key;
+                window.localStorage.setItem(key, itemsToSet[key]);
+            });
+            keysToRemove.forEach(key => {
+                currentKey = key;
+                window.localStorage.removeItem(key);
+            });
+        } catch (e) {
+            this._restoreItems(previousItems);
+            return SyncTasks.Rejected(createStorageError(e, currentKey));
+        }
+
+        return SyncTasks.Resolved<void>();
+    }
+
+    clear(): SyncTasks.Promise<void> {
+        window.localStorage.clear();
+        return SyncTasks.Resolved<void>();
+    }
+
+    getUsage(): SyncTasks.Promise<number> {
+        return SyncTasks.Resolved(getStoredSize(this._getItems(this._getKeys())));
+    }
+
+    getQuota(): SyncTasks.Promise<number | undefined> {
+        return SyncTasks.Resolved<number | undefined>(_localStorageQuota);
+    }
+
+    private _getKeys(): string[] {
+        const keys: string[] = [];
+        for (let i = 0; i < window.localStorage.length; i++) {
+            const key = window.localStorage.key(i);
+            if (key !== null) {
+                keys.push(key);
+            }
+        }
+        return keys;
+    }
+
+    private _getItems(keys: string[]): RX.Types.StorageItemsResult {
+        const items: RX.Types.StorageItemsResult = {};
+        keys.forEach(key => {
+            const value = window.localStorage.getItem(key);
+            items[key] = value === null ? undefined : value;
+        });
+        return items;
+    }
+
+    private _restoreItems(items: RX.Types.StorageItemsResult) {
+        Object.keys(items).forEach(key => {
+            const value = items[key];
+            try {
+                if (value === undefined) {
+                    window.localStorage.removeItem(key);
+                } else {
+                    window.localStorage.setItem(key, value);
+                }
+            } catch (e) {
+                // Restoring a previous value never grows the store beyond
+                // its prior size, so this is not expected to fail.
+            }
+        });
+    }
+}
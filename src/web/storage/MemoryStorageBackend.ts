@@ -0,0 +1,59 @@
+/**
+ * MemoryStorageBackend.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Non-persistent storage backend that keeps all items in memory. It is used
+ * when no persistent store is available (e.g. private browsing or tests).
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from '../../common/Interfaces';
+import { getStoredSize } from '../../common/utils/StorageUtils';
+
+import { StorageBackend } from './StorageBackend';
+
+export class MemoryStorageBackend implements StorageBackend {
+    private _items: RX.Types.StorageItemsResult = {};
+
+    getAllKeys(): SyncTasks.Promise<string[]> {
+        return SyncTasks.Resolved(this._getKeys());
+    }
+
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult> {
+        const items: RX.Types.StorageItemsResult = {};
+        keys.forEach(key => {
+            items[key] = this._items[key];
+        });
+        return SyncTasks.Resolved(items);
+    }
+
+    commit(itemsToSet: RX.Types.StorageItems, keysToRemove: string[]): SyncTasks.Promise<void> {
+        Object.keys(itemsToSet).forEach(key => {
+            this._items[key] = itemsToSet[key];
+        });
+        keysToRemove.forEach(key => {
+            this._items[key] = undefined;
+        });
+        return SyncTasks.Resolved<void>();
+    }
+
+    clear(): SyncTasks.Promise<void> {
+        this._items = {};
+        return SyncTasks.Resolved<void>();
+    }
+
+    getUsage(): SyncTasks.Promise<number> {
+        return SyncTasks.Resolved(getStoredSize(this._items));
+    }
+
+    getQuota(): SyncTasks.Promise<number | undefined> {
+        return SyncTasks.Resolved<number | undefined>(undefined);
+    }
+
+    private _getKeys(): string[] {
+        return Object.keys(this._items).filter(key => this._items[key] !== undefined);
+    }
+}
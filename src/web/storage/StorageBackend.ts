@@ -0,0 +1,70 @@
+/**
+ * StorageBackend.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Defines the contract for the web storage backends along with helpers
+ * they share.
+ */
+
+import * as SyncTasks from 'synctasks';
+
+import * as RX from '../../common/Interfaces';
+
+export interface StorageBackend {
+    getAllKeys(): SyncTasks.Promise<string[]>;
+    multiGet(keys: string[]): SyncTasks.Promise<RX.Types.StorageItemsResult>;
+
+    // Applies all of the changes or none of them.
+    commit(itemsToSet: RX.Types.StorageItems, keysToRemove: string[]): SyncTasks.Promise<void>;
+
+    clear(): SyncTasks.Promise<void>;
+    getUsage(): SyncTasks.Promise<number>;
+    getQuota(): SyncTasks.Promise<number | undefined>;
+}
+
+export function isQuotaExceededError(error: any): boolean {
+    if (!error) {
+        return false;
+    }
+
+    // Browsers disagree on how to report this condition. Firefox uses its own
+    // name and code, and older WebKit versions only report the legacy code.
+    return error.name === 'QuotaExceededError' ||
+        error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+        error.code === 22 ||
+        error.code === 1014;
+}
+
+export function createStorageError(error: any, key?: string): RX.Types.StorageErrorInfo {
+    const errorInfo: RX.Types.StorageErrorInfo = {
+        code: isQuotaExceededError(error) ? RX.Types.StorageErrorCode.QuotaExceeded :
+            RX.Types.StorageErrorCode.UnexpectedFailure,
+        description: error && error.message ? error.message : String(error)
+    };
+
+    if (key !== undefined) {
+        errorInfo.key = key;
+    }
+
+    return errorInfo;
+}
+
+// Wraps the Storage Manager estimate, which is only available in
+// secure contexts on some browsers.
+export function estimateStorage(): SyncTasks.Promise<StorageEstimate | undefined> {
+    const deferred = SyncTasks.Defer<StorageEstimate | undefined>();
+
+    if (typeof navigator !== 'undefined' && navigator.storage && navigator.storage.estimate) {
+        navigator.storage.estimate().then(estimate => {
+            deferred.resolve(estimate);
+        }, () => {
+            deferred.resolve(undefined);
+        });
+    } else {
+        deferred.resolve(undefined);
+    }
+
+    return deferred.promise();
+}
@@ -0,0 +1,244 @@
+/**
+ * AtomicCss.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Turns the declarations of cached styles into atomic CSS classes (one class
+ * per property and value) in a managed style sheet. Rendered styles refer to
+ * these classes rather than repeating the declarations inline.
+ */
+
+import * as _ from './lodashMini';
+
+export interface ClassNameAndStyle {
+    className: string | undefined;
+    style: { [property: string]: any };
+}
+
+// Numeric values of these properties don't have a unit.
+const _unitlessProperties: { [property: string]: boolean } = {
+    animationIterationCount: true,
+    borderImageOutset: true,
+    borderImageSlice: true,
+    borderImageWidth: true,
+    boxFlex: true,
+    boxFlexGroup: true,
+    boxOrdinalGroup: true,
+    columnCount: true,
+    columns: true,
+    flex: true,
+    flexGrow: true,
+    flexNegative: true,
+    flexOrder: true,
+    flexPositive: true,
+    flexShrink: true,
+    fontWeight: true,
+    gridColumn: true,
+    gridRow: true,
+    lineClamp: true,
+    lineHeight: true,
+    opacity: true,
+    order: true,
+    orphans: true,
+    tabSize: true,
+    widows: true,
+    zIndex: true,
+    zoom: true,
+    fillOpacity: true,
+    floodOpacity: true,
+    stopOpacity: true,
+    strokeDasharray: true,
+    strokeDashoffset: true,
+    strokeMiterlimit: true,
+    strokeOpacity: true,
+    strokeWidth: true
+};
+
+const _vendorPrefixRegex = /^(Webkit|Moz|ms|O)(?=[A-Z])/;
+
+// Inline styles take precedence over the rules of all style sheets, so the
+// declarations that are moved into classes need to as well. This selector
+// (which matches every element that doesn't have this id) gives the rules the
+// specificity of an id selector, so they take precedence over the class and
+// element selectors of the app's style sheets, no matter where those are.
+const _specificitySelector = ':not(#rx-atomic-css)';
+
+export class AtomicCss {
+    // Maps each declaration (e.g. "margin-top:4px") to the name of its class.
+    private _classNames: { [declaration: string]: string } = {};
+    private _rules: { [className: string]: string } = {};
+    private _styleElement: HTMLStyleElement | undefined;
+
+    // Maps the comma-separated property names of the styles that were split
+    // up to the properties that have to stay inline.
+    private _conflictingProperties: { [properties: string]: { [property: string]: boolean } } = {};
+
+    // The classes that were rendered while collecting them, in the order
+    // they were first rendered.
+    private _collectedClassNames: { [className: string]: boolean } | undefined;
+
+    // Adds a class for each declaration of the style that doesn't have one yet.
+    registerStyle(style: { [property: string]: any }): void {
+        _.each(style, (value, property) => {
+            const declaration = AtomicCss._getDeclaration(property, value);
+            if (declaration !== undefined && !this._classNames[declaration]) {
+                const className = this._allocateClassName(declaration);
+                const rule = '.' + className + _specificitySelector + '{' + declaration + '}';
+                this._classNames[declaration] = className;
+                this._rules[className] = rule;
+                this._insertRule(rule);
+            }
+        });
+    }
+
+    // Starts keeping track of the classes that are rendered, so the rules
+    // for a server-rendered tree can be emitted along with it.
+    startCollectingClassNames(): void {
+        this._collectedClassNames = {};
+    }
+
+    // Stops keeping track of the rendered classes and returns their rules.
+    stopCollectingClassNames(): string {
+        const classNames = _.keys(this._collectedClassNames);
+        this._collectedClassNames = undefined;
+        return _.map(classNames, className => this._rules[className]).join('\n');
+    }
+
+    // Splits a style into the classes that apply its registered declarations
+    // and an inline style with the remaining ones. The classes are added to
+    // the class name that is passed in, if any.
+    getClassNameAndStyle(style: { [property: string]: any } | undefined, className?: string): ClassNameAndStyle {
+        const classNames: string[] = className ? [className] : [];
+        const inlineStyle: { [property: string]: any } = {};
+
+        if (style) {
+            const conflictingProperties = this._getConflictingProperties(style);
+
+            _.each(style, (value, property) => {
+                const declaration = conflictingProperties[property] ? undefined : AtomicCss._getDeclaration(property, value);
+                const declarationClassName = declaration !== undefined ? this._classNames[declaration] : undefined;
+                if (declarationClassName) {
+                    classNames.push(declarationClassName);
+                    if (this._collectedClassNames) {
+                        this._collectedClassNames[declarationClassName] = true;
+                    }
+                } else {
+                    inlineStyle[property] = value;
+                }
+            });
+        }
+
+        return {
+            className: classNames.length > 0 ? classNames.join(' ') : undefined,
+            style: inlineStyle
+        };
+    }
+
+    // Names are derived from the declaration rather than the order in which
+    // styles are created, so they're stable across page loads.
+    private _allocateClassName(declaration: string): string {
+        let hash = 5381;
+        for (let i = 0; i < declaration.length; i++) {
+            hash = ((hash << 5) + hash + declaration.charCodeAt(i)) | 0;
+        }
+
+        const baseName = 'rx-' + (hash >>> 0).toString(36);
+        let className = baseName;
+        for (let suffix = 1; this._rules[className] !== undefined; suffix++) {
+            className = baseName + '-' + suffix;
+        }
+
+        return className;
+    }
+
+    private _insertRule(rule: string) {
+        // There's no document to add the rules to when rendering outside of a browser.
+        if (typeof document === 'undefined') {
+            return;
+        }
+
+        if (!this._styleElement) {
+            this._styleElement = document.createElement('style');
+            this._styleElement.type = 'text/css';
+            document.head.appendChild(this._styleElement);
+        }
+
+        const sheet = this._styleElement.sheet as CSSStyleSheet | null;
+        try {
+            if (sheet) {
+                sheet.insertRule(rule, sheet.cssRules.length);
+            } else {
+                this._styleElement.appendChild(document.createTextNode(rule));
+            }
+        } catch {
+            // The browser rejected the rule, so the declaration has no effect
+            // either way.
+        }
+    }
+
+    // Returns the CSS declaration for a property, or undefined if the value
+    // can't be expressed in a class (e.g. animated values).
+    private static _getDeclaration(property: string, value: any): string | undefined {
+        let cssValue: string;
+        if (typeof value === 'number') {
+            const unprefixedProperty = property.replace(_vendorPrefixRegex, '');
+            const unitlessProperty = unprefixedProperty.charAt(0).toLowerCase() + unprefixedProperty.slice(1);
+            cssValue = value === 0 || _unitlessProperties[unitlessProperty] ? String(value) : value + 'px';
+        } else if (typeof value === 'string') {
+            cssValue = value.trim();
+        } else {
+            return undefined;
+        }
+
+        // Values that could escape the declaration are left inline.
+        if (cssValue === '' || /[{};<>]/.test(cssValue)) {
+            return undefined;
+        }
+
+        return AtomicCss._getCssPropertyName(property) + ':' + cssValue;
+    }
+
+    // Converts a property name like "WebkitUserSelect" to "-webkit-user-select".
+    private static _getCssPropertyName(property: string): string {
+        return property.replace(/([A-Z])/g, '-$1').toLowerCase().replace(/^ms-/, '-ms-');
+    }
+
+    // The conflicting properties only depend on which properties the style
+    // has, and styles are rendered with the same properties over and over, so
+    // they're only worked out once for each set of properties.
+    private _getConflictingProperties(style: { [property: string]: any }): { [property: string]: boolean } {
+        const properties = _.keys(style);
+        const key = properties.join(',');
+
+        if (!this._conflictingProperties.hasOwnProperty(key)) {
+            this._conflictingProperties[key] = AtomicCss._findConflictingProperties(properties);
+        }
+
+        return this._conflictingProperties[key];
+    }
+
+    // Classes are applied in the order they were added to the style sheet,
+    // not the order of the properties in the style. If a style contains a
+    // shorthand property along with properties it covers (e.g. "borderWidth"
+    // and "borderTopWidth"), these properties are left inline so the order
+    // of the properties is kept.
+    private static _findConflictingProperties(properties: string[]): { [property: string]: boolean } {
+        const conflictingProperties: { [property: string]: boolean } = {};
+        const words = _.map(properties, property => AtomicCss._getCssPropertyName(property).split('-'));
+
+        for (let i = 0; i < properties.length; i++) {
+            for (let j = 0; j < properties.length; j++) {
+                if (i !== j && words[i].length < words[j].length && words[i][0] === words[j][0] &&
+                        _.filter(words[i], word => words[j].indexOf(word) < 0).length === 0) {
+                    conflictingProperties[properties[i]] = true;
+                    conflictingProperties[properties[j]] = true;
+                }
+            }
+        }
+
+        return conflictingProperties;
+    }
+}
+
+export default new AtomicCss();
@@ -0,0 +1,49 @@
+/**
+ * GlobalStyleSheets.ts
+ *
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT license.
+ *
+ * Installs the style sheets that components need for rules that can't be
+ * expressed as inline styles (e.g. pseudo elements and keyframes). The style
+ * sheets are also kept as text so they can be rendered on the server.
+ */
+
+import * as _ from './lodashMini';
+
+export class GlobalStyleSheets {
+    private _styleSheets: { [name: string]: string } = {};
+
+    // Installs the style sheet unless one with the same name was installed.
+    install(name: string, cssText: string): void {
+        if (this._styleSheets[name] !== undefined) {
+            return;
+        }
+
+        this._styleSheets[name] = cssText;
+
+        // There's no document to install the style sheet in when rendering
+        // on the server.
+        if (typeof document === 'undefined') {
+            return;
+        }
+
+        const head = document.head || document.getElementsByTagName('head')[0];
+        const style = document.createElement('style') as any;
+
+        style.type = 'text/css';
+        if (style.styleSheet) {
+            style.styleSheet.cssText = cssText;
+        } else {
+            style.appendChild(document.createTextNode(cssText));
+        }
+
+        head.appendChild(style);
+    }
+
+    getCssText(): string {
+        return _.map(this._styleSheets, cssText => cssText).join('\n');
+    }
+}
+
+export default new GlobalStyleSheets();
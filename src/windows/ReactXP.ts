@@ -28,9 +28,11 @@ import NetworkImpl from '../native-common/Network';
 import PickerImpl from '../native-common/Picker';
 import PlatformImpl from '../native-common/Platform';
 import PopupImpl from '../native-common/Popup';
+import ResponsiveStyles from '../common/ResponsiveStyles';
 import ScrollViewImpl from '../native-desktop/ScrollView';
 import StorageImpl from '../native-common/Storage';
 import StylesImpl from '../native-common/Styles';
+import Themes from '../common/Themes';
 import RXTypes = require('../common/Types');
 import UserInterfaceImpl from '../native-common/UserInterface';
 import UserPresenceImpl from '../native-common/UserPresence';
@@ -47,6 +49,8 @@ import TextInputImpl from './TextInput';
 import ViewImpl from './View';
 
 AccessibilityUtil.setAccessibilityPlatformUtil(AccessibilityPlatformUtil);
+Themes.setAccessibility(AccessibilityImpl);
+ResponsiveStyles.setUserInterface(UserInterfaceImpl);
 
 // -- STRANGE THINGS GOING ON HERE --
 // See web/ReactXP.tsx for more details.